@@ -7,10 +7,14 @@ import copy from 'rollup-plugin-copy';
 import json from '@rollup/plugin-json';
 import replace from '@rollup/plugin-replace';
 
-export default {
+export default [{
   input: 'src/index.tsx',
   output: {
-    file: 'docs/index.js',
+    dir: 'docs',
+    entryFileNames: 'index.js',
+    // pdf.js, UTIF, heic2any and the in-page image jobs (OpenCV) are imported on demand, each is
+    // loaded relative to index.js the first time it is needed
+    chunkFileNames: 'chunks/[name]-[hash].js',
     format: 'es',
     sourcemap: true
   },
@@ -21,11 +25,16 @@ export default {
         'process.env.NODE_ENV': JSON.stringify('production'),
         'process.env': JSON.stringify({
           NODE_ENV: 'production'
-        })
+        }),
+        // Workers are loaded relative to the bundle, see BUNDLE_URL
+        '__BUNDLE_URL__': 'import.meta.url'
       }
     }),
     typescript({
       tsconfig: './tsconfig.json',
+      // Inside the output dir, as rollup needs when it writes chunks
+      outDir: 'docs',
+      declarationDir: 'docs/dist/types',
       sourceMap: true,
       inlineSources: true
     }),
@@ -46,9 +55,34 @@ export default {
     }),
     copy({
       targets: [
-        { src: 'src/index.html', dest: 'docs' }
+        { src: 'src/index.html', dest: 'docs' },
+        { src: 'node_modules/pdfjs-dist/build/pdf.worker.min.mjs', dest: 'docs' }
       ]
     }),
     terser()
   ]
-}; 
\ No newline at end of file
+}, {
+  // The image worker, loaded by the page from CONFIG.image.workerSrc
+  input: 'src/imageWorker.ts',
+  output: {
+    file: 'docs/imageWorker.js',
+    format: 'iife',
+    sourcemap: true
+  },
+  plugins: [
+    typescript({
+      tsconfig: './tsconfig.json',
+      sourceMap: true,
+      inlineSources: true
+    }),
+    resolve({
+      browser: true,
+      preferBuiltins: false
+    }),
+    commonjs({
+      transformMixedEsModules: true,
+      include: /node_modules/
+    }),
+    terser()
+  ]
+}];
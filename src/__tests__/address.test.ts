@@ -0,0 +1,63 @@
+import { describe, it, expect } from '@jest/globals';
+import { findAddress, formatAddress, parseAddress } from '../address.js';
+import { extractFieldsV2 } from '../extractFields.js';
+
+describe('findAddress', () => {
+  it('should read a street', () => {
+    expect(findAddress('165 Keen Road')).toEqual({
+      address: { street: '165 Keen Road', ruralDelivery: '', town: '', postcode: '' },
+      start: 0,
+    });
+    expect(findAddress('12A MAIN ST')?.address.street).toBe('12A Main St');
+  });
+
+  it('should read a rural delivery route, town and postcode after a name', () => {
+    expect(findAddress('Becky Talbot-Van Beers Rd 21, Geraldine 7991')).toEqual({
+      address: { street: '', ruralDelivery: 'RD 21', town: 'Geraldine', postcode: '7991' },
+      start: 23,
+    });
+    expect(findAddress('Geraldine 7991')?.address).toMatchObject({ town: 'Geraldine', postcode: '7991' });
+  });
+
+  it('should ignore lines without an address', () => {
+    expect(findAddress('Mack Rangatira')).toBeNull();
+    expect(findAddress('Child 1')).toBeNull();
+  });
+});
+
+describe('parseAddress', () => {
+  it('should round-trip a formatted address', () => {
+    const address = parseAddress('165 Keen Road\nRD 21, Geraldine 7991');
+    expect(formatAddress(address)).toBe('165 Keen Road, RD 21, Geraldine 7991');
+    expect(parseAddress(formatAddress(address))).toEqual(address);
+  });
+});
+
+describe('address extraction', () => {
+  const card = `
+    Jason Van Beers 6486549
+    01/01/1982 22/08/2024 01/10/2024 - 30/09/2025
+    srouserasmen 165 Keen Road
+    Becky Talbot-Van Beers Rd 21, Geraldine 7991
+    Mack Rangatira
+  `;
+
+  it('should join the street and town lines into one address', () => {
+    const { matches } = extractFieldsV2(card);
+
+    expect(matches.address).toHaveLength(1);
+    expect(matches.address[0]).toMatchObject({
+      value: '165 Keen Road, RD 21, Geraldine 7991',
+      confidence: 0.85,
+      line: 2,
+      pattern: 'address-pattern',
+    });
+  });
+
+  it('should not take a street line as the spouse', () => {
+    const { matches } = extractFieldsV2(card);
+
+    expect(matches.spousePartner.map(m => m.value)).toEqual(['Becky Talbot-Van Beers']);
+    expect(extractFieldsV2('Keen Road\nRD 21, Geraldine 7991').matches.spousePartner).toEqual([]);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from '@jest/globals';
+import { AutoCaptureState, LiveFrame, averageHash, hashDistance, initialAutoCapture, nextAutoCapture } from '../autoCapture.js';
+import type { CardFraming } from '../cardQuad.js';
+
+const cardHash = averageHash(Array.from({ length: 256 }, (_, i) => (i % 3 === 0 ? 200 : 40)));
+const otherHash = averageHash(Array.from({ length: 256 }, (_, i) => (i % 2 === 0 ? 200 : 40)));
+const good: LiveFrame = { score: 150, sharpness: 120, hash: cardHash };
+
+// Run polls one second apart, returning the times a capture fired
+function run(frames: Array<[LiveFrame, CardFraming]>, allowDuplicates = false, start: AutoCaptureState = initialAutoCapture): number[] {
+  let state = start;
+  const captures: number[] = [];
+  frames.forEach(([frame, framing], i) => {
+    const next = nextAutoCapture(state, frame, framing, 10000 + i * 1000, allowDuplicates);
+    state = next.state;
+    if (next.capture) captures.push(i);
+  });
+  return captures;
+}
+
+describe('autoCapture', () => {
+  it('should hash frames and compare them', () => {
+    expect(cardHash).toHaveLength(256);
+    expect(hashDistance(cardHash, cardHash)).toBe(0);
+    expect(hashDistance(cardHash, otherHash)).toBeGreaterThan(0.1);
+  });
+
+  it('should capture after enough good polls in a row', () => {
+    expect(run([[good, 'good'], [good, 'good'], [good, 'good']])).toEqual([2]);
+    // A blurry poll restarts the count
+    expect(run([[good, 'good'], [{ ...good, sharpness: 10 }, 'good'], [good, 'good'], [good, 'good']])).toEqual([]);
+    expect(run([[good, 'too-far'], [good, 'good'], [good, 'good']])).toEqual([]);
+  });
+
+  it('should not capture the same card twice', () => {
+    const frames: Array<[LiveFrame, CardFraming]> = Array(12).fill([good, 'good']);
+    expect(run(frames)).toEqual([2]);
+    // Rescans want the same card again, after the cooldown
+    expect(run(frames, true)).toEqual([2, 7]);
+  });
+
+  it('should capture a new card after the cooldown', () => {
+    const other = { ...good, hash: otherHash };
+    expect(run([[good, 'good'], [good, 'good'], [good, 'good'], [other, 'good'], [other, 'good'], [other, 'good'], [other, 'good'], [other, 'good']])).toEqual([2, 7]);
+    // Or the same card once it has left the frame and come back
+    expect(run([[good, 'good'], [good, 'good'], [good, 'good'], [good, 'none'], [good, 'good'], [good, 'good'], [good, 'good'], [good, 'good']])).toEqual([2, 7]);
+  });
+});
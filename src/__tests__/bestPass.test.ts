@@ -0,0 +1,63 @@
+import { describe, it, expect } from '@jest/globals';
+import { fromPass, passesValidation, scorePass, withOtherPasses } from '../bestPass.js';
+import { listItems } from '../extractFields.js';
+import type { DocumentTemplate } from '../templates.js';
+
+const template: DocumentTemplate = {
+  id: 'club',
+  name: 'Club',
+  description: '',
+  keywords: [],
+  fields: [
+    { key: 'number', label: 'No', aliases: [], patterns: [], type: 'id', required: true },
+    { key: 'name', label: 'Name', aliases: [], patterns: [], type: 'name', required: true },
+    { key: 'note', label: 'Note', aliases: [], patterns: [], type: 'text' },
+  ],
+};
+
+const match = (value: string, confidence: number) => ({ value, confidence, line: 0, pattern: 'p' });
+
+describe('bestPass', () => {
+  it('should score completeness and confidence of the required fields', () => {
+    const full = scorePass({ number: [match('123', 1)], name: [match('Amy', 0.8)], note: [] }, [], template);
+    expect(full).toEqual({ completeness: 1, confidence: 0.9, warnings: 0, score: 0.95 });
+    expect(passesValidation(full)).toBe(true);
+
+    const half = scorePass({ number: [match('123', 1)], name: [], note: [] }, [], template);
+    expect(half).toMatchObject({ completeness: 0.5, confidence: 0.5, score: 0.5 });
+    expect(passesValidation(half)).toBe(false);
+  });
+
+  it('should not pass a result with warnings', () => {
+    const warned = scorePass({ number: [match('123', 1)], name: [match('Amy', 1)] }, [{ code: 'x', fields: ['name'], message: 'x' }], template);
+    expect(warned.score).toBeCloseTo(0.9);
+    expect(passesValidation(warned)).toBe(false);
+  });
+
+  it('should keep the winner first and the other passes after it, tagged', () => {
+    const matches = withOtherPasses(
+      { mode: 'auto', matches: { name: [match('Amy', 0.7)] } },
+      [{ mode: 'auto-uneven-light', matches: { name: [match('Arny', 0.9)], other: [match('x', 1)] } }]
+    );
+
+    expect(matches).toEqual({
+      name: [{ ...match('Amy', 0.7), pass: 'auto' }, { ...match('Arny', 0.9), pass: 'auto-uneven-light' }],
+    });
+  });
+
+  it('should take field values and list items only from the winner', () => {
+    const matches = withOtherPasses(
+      { mode: 'auto', matches: { name: [], other: [{ ...match('Ann Lee', 0.5), item: 0 }] } },
+      [{ mode: 'sparse_text_osd', matches: { name: [match('Amy', 1)], other: [{ ...match('Arm Lea', 0.95), item: 0 }, { ...match('Bob Lee', 0.9), item: 1 }] } }]
+    );
+    const winner = fromPass(matches, 'auto');
+
+    expect(matches.other.map(m => m.value)).toEqual(['Ann Lee', 'Arm Lea', 'Bob Lee']);
+    expect(winner.name).toEqual([]);
+    expect(listItems(winner.other).map(item => item.value)).toEqual(['Ann Lee']);
+  });
+
+  it('should keep untagged candidates from a single pass', () => {
+    expect(fromPass({ name: [match('Amy', 1)] }, 'auto')).toEqual({ name: [match('Amy', 1)] });
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from '@jest/globals';
+import { CARD_ASPECT, Quad, cardFraming, cardSize, cornerAngles, isCardShaped, landscapeQuad, orderCorners, quadArea, quadSize } from '../cardQuad.js';
+
+describe('cardQuad', () => {
+  // A card 320 x 200 tilted slightly, corners as approxPolyDP might list them
+  const corners = [{ x: 330, y: 230 }, { x: 10, y: 20 }, { x: 20, y: 215 }, { x: 325, y: 30 }];
+
+  it('should order corners clockwise from the top-left', () => {
+    expect(orderCorners(corners)).toEqual([{ x: 10, y: 20 }, { x: 325, y: 30 }, { x: 330, y: 230 }, { x: 20, y: 215 }]);
+  });
+
+  it('should measure a quad', () => {
+    const square: Quad = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 50 }, { x: 0, y: 50 }];
+    expect(quadSize(square)).toEqual({ width: 100, height: 50 });
+    expect(quadArea(square)).toBe(5000);
+  });
+
+  it('should turn an upright card so its long edges are top and bottom', () => {
+    const upright: Quad = [{ x: 0, y: 0 }, { x: 50, y: 0 }, { x: 50, y: 80 }, { x: 0, y: 80 }];
+    const quad = landscapeQuad(upright);
+    expect(quad[0]).toEqual({ x: 0, y: 80 });
+    expect(quadSize(quad)).toEqual({ width: 80, height: 50 });
+  });
+
+  it('should accept only card-sized, card-shaped quads', () => {
+    const card = orderCorners(corners);
+    expect(isCardShaped(card, 400 * 300)).toBe(true);
+    // Too small a share of the image
+    expect(isCardShaped(card, 4000 * 3000)).toBe(false);
+    // A long thin strip, e.g. a label
+    expect(isCardShaped([{ x: 0, y: 0 }, { x: 300, y: 0 }, { x: 300, y: 40 }, { x: 0, y: 40 }], 300 * 100)).toBe(false);
+  });
+
+  it('should size the warped card to its proportions', () => {
+    expect(cardSize(1280)).toEqual({ width: 1280, height: Math.round(1280 / CARD_ASPECT) });
+  });
+
+  it('should tell how well the card is framed', () => {
+    const card: Quad = [{ x: 100, y: 100 }, { x: 500, y: 100 }, { x: 500, y: 352 }, { x: 100, y: 352 }];
+    expect(cornerAngles(card)).toEqual([90, 90, 90, 90]);
+    expect(cardFraming(card, 640 * 480)).toBe('good');
+    expect(cardFraming(card, 1920 * 1080)).toBe('too-far');
+    // Top edge much shorter than the bottom, the card is tilted away from the camera
+    expect(cardFraming([{ x: 200, y: 100 }, { x: 400, y: 100 }, { x: 500, y: 352 }, { x: 100, y: 352 }], 480 * 320)).toBe('too-skewed');
+    expect(cardFraming(null, 640 * 480)).toBe('none');
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from '@jest/globals';
+import { ocrConfidence, scoreMatches } from '../confidence.js';
+import type { Page } from 'tesseract.js';
+import { textLines } from '../extractFields.js';
+import type { FieldMatch, OcrWord } from '../extractFields.js';
+import { toOcrWords } from '../layoutExtract.js';
+import { getTemplate } from '../templates.js';
+
+// How tesseract.js turns the result it gets from its worker into a Page
+const circularize: (page: unknown) => Page = require('tesseract.js/src/utils/circularize.js');
+
+// A page as Tesseract reads it, in paragraphs of lines of [text, confidence] words
+function tesseractPage(paragraphs: Array<Array<Array<[string, number]>>>): Page {
+  let row = 0;
+  const blocks = [{
+    paragraphs: paragraphs.map(lines => ({
+      lines: lines.map(line => {
+        const y0 = row++ * 20;
+        const words = line.map(([text, confidence], index) => ({ text, confidence, symbols: [], bbox: { x0: index * 60, y0, x1: index * 60 + 50, y1: y0 + 15 } }));
+        return { text: line.map(([text]) => text).join(' '), words };
+      }),
+    })),
+  }];
+  return circularize({ text: paragraphs.map(lines => lines.map(line => line.map(([text]) => text).join(' ')).join('\n')).join('\n\n'), blocks });
+}
+
+const word = (text: string, confidence: number, line: number, x0 = 0): OcrWord => ({
+  text, confidence, line, bbox: { x0, y0: line * 20, x1: x0 + 50, y1: line * 20 + 15 },
+});
+
+const lines = ['NAME Jason Van Beers', '01/01/1982 22/08/2024'];
+const words = [
+  word('NAME', 95, 0, 0), word('Jason', 90, 0, 60), word('Van', 80, 0, 120), word('Beers', 70, 0, 180),
+  word('O1/01/1982', 40, 1, 0), word('22/08/2024', 96, 1, 60),
+];
+
+const match = (value: string, line: number, extra: Partial<FieldMatch> = {}): FieldMatch => ({
+  value, confidence: 1.0, line, pattern: 'test', position: line, ...extra,
+});
+
+describe('confidence', () => {
+  it('should average the confidence of the words a value came from', () => {
+    expect(ocrConfidence(match('Jason Van Beers', 0), words, lines)).toBeCloseTo(0.8);
+  });
+
+  it('should find words despite digit confusions', () => {
+    expect(ocrConfidence(match('01/01/1982', 1), words, lines)).toBeCloseTo(0.4);
+  });
+
+  it('should use the words inside a layout match bbox', () => {
+    const bbox = { x0: 55, y0: 0, x1: 175, y1: 15 };
+    expect(ocrConfidence(match('Jason Van', 0, { bbox }), words, lines)).toBeCloseTo(0.85);
+  });
+
+  it('should return null when the words are not found', () => {
+    expect(ocrConfidence(match('Nobody', 0), words, lines)).toBeNull();
+  });
+
+  it('should rank a readable candidate above a hard to read one with the same prior', () => {
+    const template = getTemplate('family_season_licence')!;
+    const scored = scoreMatches({ dor: [match('01/01/1982', 1), match('22/08/2024', 1)] }, template, words, lines);
+
+    expect(scored.dor[0].value).toBe('22/08/2024');
+    expect(scored.dor[1].ocrConfidence).toBeCloseTo(0.4);
+    expect(scored.dor[1].confidence).toBeLessThan(0.75);
+  });
+
+  it('should penalise unlabeled candidates far from their usual line', () => {
+    const template = getTemplate('family_season_licence')!;
+    const near = scoreMatches({ name: [match('Ann', 2)] }, template, [], []).name[0];
+    const far = scoreMatches({ name: [match('Ann', 9)] }, template, [], []).name[0];
+    const labeled = scoreMatches({ name: [match('Ann', 9, { label: { alias: 'NAME', text: 'NAME', distance: 0 } })] }, template, [], []).name[0];
+
+    expect(near.confidence).toBe(1.0);
+    expect(far.confidence).toBeCloseTo(0.86);
+    expect(labeled.confidence).toBe(1.0);
+  });
+
+  it('should weigh text extractor candidates by the words Tesseract read for them', () => {
+    const template = getTemplate('family_season_licence')!;
+    const page = tesseractPage([
+      [[['NAME', 95], ['Jason', 90], ['Van', 80], ['Beers', 70]]],
+      [[['DOR', 93], ['ISSUE', 91]], [['O1/01/1982', 40], ['22/08/2024', 96]]],
+    ]);
+    const pageLines = textLines(page.text);
+    const scored = scoreMatches({
+      name: [match('Jason Van Beers', 0)],
+      dor: [match('01/01/1982', 2), match('22/08/2024', 2)],
+    }, template, toOcrWords(page), pageLines);
+
+    expect(scored.name[0].ocrConfidence).toBeCloseTo(0.8);
+    expect(scored.dor[0]).toMatchObject({ value: '22/08/2024', ocrConfidence: 0.96 });
+    expect(scored.dor[1].ocrConfidence).toBeCloseTo(0.4);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from '@jest/globals';
+import { poolFrame, voteMatches } from '../consensus.js';
+import type { FieldMatch, FieldMatches } from '../extractFields.js';
+
+const match = (value: string, confidence: number): FieldMatch => ({ value, confidence, line: 0, pattern: 'test' });
+
+describe('consensus', () => {
+  it('tags pooled candidates with their frame', () => {
+    const pool = poolFrame(poolFrame({}, { name: [match('Jason', 0.9)] }, 0), { name: [match('Jasen', 0.8)] }, 1);
+    expect(pool.name.map(m => m.frame)).toEqual([0, 1]);
+  });
+
+  it('prefers a value several frames agree on over a single confident read', () => {
+    const frames: FieldMatches[] = [
+      { name: [match('Jason Van Beers', 0.8)] },
+      { name: [match('JASON  VAN BEERS', 0.8)] },
+      { name: [match('Jasan Van Boers', 1.0)] },
+    ];
+    const pool = frames.reduce((acc, frame, i) => poolFrame(acc, frame, i), {} as FieldMatches);
+    const voted = voteMatches(pool);
+    expect(voted.name[0].value).toBe('Jason Van Beers');
+    expect(voted.name[0].frames).toBe(2);
+    expect(voted.name[1].frames).toBe(1);
+  });
+
+  it('counts a frame once per value and ignores frames that missed the field', () => {
+    const pool = poolFrame(
+      poolFrame({}, { dor: [match('01/01/1982', 0.9), match('01/01/1982', 0.8)] }, 0),
+      { dor: [] },
+      1
+    );
+    const voted = voteMatches(pool);
+    expect(voted.dor).toHaveLength(1);
+    expect(voted.dor[0].confidence).toBeCloseTo(0.9);
+    expect(voted.dor[0].frames).toBe(1);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from '@jest/globals';
+import { dateOrder, findDates, parseOcrDate } from '../dates.js';
+import { extractFieldsV2 } from '../extractFields.js';
+
+const now = new Date(2026, 5, 1);
+
+describe('parseOcrDate', () => {
+  it('fixes digit confusions and records them', () => {
+    const parsed = parseOcrDate('O1/l0/2O24', 'issue', { now });
+    expect(parsed?.value).toBe('01/10/2024');
+    expect(parsed?.corrections).toEqual(['O→0', 'l→1', 'O→0']);
+  });
+
+  it('reads day and month in the order the locale uses', () => {
+    expect(dateOrder('en-NZ')).toBe('DMY');
+    expect(dateOrder('en-US')).toBe('MDY');
+    expect(parseOcrDate('03/04/2024', 'issue', { locale: 'en-NZ', now })?.value).toBe('03/04/2024');
+    expect(parseOcrDate('03/04/2024', 'issue', { locale: 'en-US', now })?.value).toBe('04/03/2024');
+    expect(parseOcrDate('2024-04-03', 'issue', { locale: 'en-NZ', now })?.value).toBe('03/04/2024');
+  });
+
+  it('swaps day and month only when the locale order is impossible', () => {
+    const parsed = parseOcrDate('02/13/2024', 'issue', { locale: 'en-NZ', now });
+    expect(parsed?.value).toBe('13/02/2024');
+    expect(parsed?.corrections).toContain('day↔month');
+    expect(parseOcrDate('32/13/2024', 'issue', { now })).toBeNull();
+  });
+
+  it('expands two-digit years by the kind of date', () => {
+    expect(parseOcrDate('01/01/82', 'birth', { now })?.value).toBe('01/01/1982');
+    expect(parseOcrDate('01/01/24', 'issue', { now })?.value).toBe('01/01/2024');
+    expect(parseOcrDate('01/01/30', 'birth', { now })?.value).toBe('01/01/1930');
+    expect(parseOcrDate('01/01/30', 'issue', { now })?.value).toBe('01/01/2030');
+  });
+
+  it('marks a birth year that fits both centuries as ambiguous', () => {
+    const parsed = parseOcrDate('01/01/26', 'birth', { now });
+    expect(parsed?.value).toBe('01/01/2026');
+    expect(parsed?.ambiguous).toBe(true);
+    expect(parseOcrDate('01/01/1982', 'birth', { now })?.ambiguous).toBe(false);
+  });
+});
+
+describe('findDates', () => {
+  it('finds every date in a line with its position', () => {
+    const dates = findDates('DOR 0l/O1/1982 ISSUE 22/08/2024', 'issue', { now });
+    expect(dates.map(d => d.value)).toEqual(['01/01/1982', '22/08/2024']);
+    expect(dates[0].start).toBe(4);
+  });
+
+  it('ignores runs of letters that only look like a date', () => {
+    expect(findDates('SOS/lo/OO', 'issue', { now })).toEqual([]);
+  });
+});
+
+describe('extractFieldsV2 dates', () => {
+  it('sorts unlabeled dates by day/month rather than month/day', () => {
+    const { matches } = extractFieldsV2('12/01/1982 13/02/2024 02/03/2025');
+    expect(matches.dor[0].value).toBe('12/01/1982');
+    expect(matches.issue[0].value).toBe('13/02/2024');
+    expect(matches.valid[0].value).toBe('02/03/2025');
+  });
+
+  it('reads a two-digit DOR year as a birth year', () => {
+    const { matches } = extractFieldsV2('01/01/82 22/08/24 01/10/24 - 30/09/25');
+    expect(matches.dor[0].value).toBe('01/01/1982');
+    expect(matches.issue[0].value).toBe('22/08/2024');
+    expect(matches.valid[0].value).toBe('01/10/2024 - 30/09/2025');
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from '@jest/globals';
+import { extractFieldsV2, extractTemplateFields, listItems } from '../extractFields.js';
+import type { DocumentTemplate } from '../templates.js';
+
+describe('dependants', () => {
+  it('should read each name under OTHER as its own item', () => {
+    const { matches } = extractFieldsV2(`
+      NAME John Smith
+      SPOUSE/PARTNER Jane Smith
+      OTHER
+      Child 1
+      Smith, Junior
+      Licence
+    `);
+
+    expect(listItems(matches.other).map(item => item.value)).toEqual(['Child 1', 'Smith, Junior']);
+    expect(matches.other[0]).toMatchObject({ item: 0, confidence: 1.0, pattern: 'other-section' });
+    expect(matches.other[1]).toMatchObject({ item: 1, confidence: 1.0 });
+  });
+
+  it('should read name lines after the spouse as dependants when there is no OTHER label', () => {
+    const { matches } = extractFieldsV2(`
+      NAME John Smith
+      SPOUSE/PARTNER Jane Smith
+      Amy Smith
+      12 Long Road
+      Licence
+    `);
+
+    expect(matches.other).toHaveLength(1);
+    expect(matches.other[0]).toMatchObject({ value: 'Amy Smith', item: 0, confidence: 0.8, pattern: 'other-implicit' });
+  });
+
+  it('should group candidates by item, best first', () => {
+    const items = listItems([
+      { value: 'Amy', confidence: 0.8, line: 3, pattern: 'a', item: 1 },
+      { value: 'Tom', confidence: 0.9, line: 2, pattern: 'a', item: 0 },
+      { value: 'Amie', confidence: 0.95, line: 3, pattern: 'b', item: 1 },
+    ]);
+
+    expect(items.map(item => item.value)).toEqual(['Tom', 'Amie']);
+    expect(items[1].matches).toHaveLength(2);
+  });
+
+  it('should read list fields of other templates one line per item', () => {
+    const template: DocumentTemplate = {
+      id: 'club',
+      name: 'Club',
+      description: '',
+      keywords: [],
+      fields: [
+        { key: 'name', label: 'Name', aliases: ['NAME'], patterns: [], type: 'name' },
+        { key: 'guests', label: 'Guests', aliases: ['GUESTS'], patterns: [], type: 'name', list: true },
+      ],
+    };
+    const { matches } = extractTemplateFields('NAME Ann Lee\nGUESTS Bob Lee\nCat Lee', template);
+
+    expect(listItems(matches.guests).map(item => item.value)).toEqual(['Bob Lee', 'Cat Lee']);
+  });
+});
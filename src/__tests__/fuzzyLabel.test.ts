@@ -0,0 +1,111 @@
+import { describe, it, expect } from '@jest/globals';
+import { editDistance, findLineLabel, matchLabel, scanLabels } from '../fuzzyLabel.js';
+import { LICENCE_LABEL_ALIASES, extractFieldsV2 } from '../extractFields.js';
+
+const labels = Object.entries(LICENCE_LABEL_ALIASES).map(([key, aliases]) => ({ key, aliases }));
+
+describe('fuzzyLabel', () => {
+  it('should measure edit distance', () => {
+    expect(editDistance('WAE', 'NAME')).toBe(2);
+    expect(editDistance('ISSUE', 'ISSUE')).toBe(0);
+  });
+
+  it('should match OCR-mangled labels seen on real scans within a configured tolerance', () => {
+    expect(matchLabel('wae', ['NAME'], 0.5, true)).toEqual({ alias: 'NAME', distance: 2 });
+    expect(matchLabel('srouserasmen', ['SPOUSE/PARTNER'], 0.5, true)).toEqual({ alias: 'SPOUSE/PARTNER', distance: 6 });
+  });
+
+  it('should allow one edit on longer aliases only', () => {
+    expect(matchLabel('SP0USE/PARTNR', ['SPOUSE/PARTNER'])).toEqual({ alias: 'SPOUSE/PARTNER', distance: 1 });
+    expect(matchLabel('SPOSE/PARTNR', ['SPOUSE/PARTNER'])).toBeNull();
+    expect(matchLabel('DOB', ['DOR'])).toBeNull();
+    expect(matchLabel('wae', ['NAME'])).toBeNull();
+  });
+
+  it('should only take an inexact match in capitals or at the start of a line', () => {
+    expect(matchLabel('spouse/partnr', ['SPOUSE/PARTNER'])).toBeNull();
+    expect(matchLabel('spouse/partnr', ['SPOUSE/PARTNER'], undefined, true)).toEqual({ alias: 'SPOUSE/PARTNER', distance: 1 });
+  });
+
+  it('should fold common character confusions', () => {
+    expect(matchLabel('D0R', ['DOR'])).toEqual({ alias: 'DOR', distance: 0 });
+    expect(matchLabel('lSSUE', ['ISSUE'])).toEqual({ alias: 'ISSUE', distance: 0 });
+  });
+
+  it('should read a lowercase l as I only among capitals or next to a digit', () => {
+    expect(matchLabel('Valid', ['VALID'])).toEqual({ alias: 'VALID', distance: 0 });
+    expect(matchLabel('VAlID', ['VALID'])).toEqual({ alias: 'VALID', distance: 1 });
+    expect(matchLabel('Issue', ['ISSUE'])).toEqual({ alias: 'ISSUE', distance: 0 });
+    expect(matchLabel('lssue', ['ISSUE'], undefined, true)).toEqual({ alias: 'ISSUE', distance: 1 });
+  });
+
+  it('should not match names, dates or unrelated words', () => {
+    expect(matchLabel('Mack', ['NAME'])).toBeNull();
+    expect(matchLabel('ets', ['DOR'])).toBeNull();
+    expect(matchLabel('01/01/1982', ['DOR'])).toBeNull();
+  });
+
+  it('should not read given names as labels', () => {
+    ['Esther', 'Luther'].forEach(name => expect(matchLabel(name, ['OTHER'], undefined, true)).toBeNull());
+    ['Don', 'Dora', 'Doe', 'Dr'].forEach(name => expect(matchLabel(name, ['DOR'], undefined, true)).toBeNull());
+    ['Nami', 'Jame'].forEach(name => expect(matchLabel(name, ['NAME'], undefined, true)).toBeNull());
+  });
+
+  it('should respect a tighter tolerance', () => {
+    expect(matchLabel('wae', ['NAME'], 0.25)).toBeNull();
+  });
+
+  it('should find labels split over several tokens', () => {
+    const label = findLineLabel('SPOUSE / PARTNER Becky Talbot', labels);
+
+    expect(label).toMatchObject({ key: 'spousePartner', distance: 0, rest: 'Becky Talbot' });
+  });
+
+  it('should find every label on a line', () => {
+    expect(scanLabels('D0R 01/01/1982 lSSUED 22/08/2024', labels).map(l => l.key)).toEqual(['dor', 'issue']);
+  });
+});
+
+describe('extractFieldsV2 with noisy labels', () => {
+  it('should read the date after a mangled ISSUED label', () => {
+    const { matches } = extractFieldsV2('ISSUEO 22/08/2024');
+
+    expect(matches.issue[0]).toMatchObject({
+      value: '22/08/2024',
+      pattern: 'issue-labeled(ISSUED~1)',
+      label: { alias: 'ISSUED', text: 'ISSUEO', distance: 1 }
+    });
+  });
+
+  it('should read each labeled date after its own label', () => {
+    const { matches } = extractFieldsV2('D0R 01/01/1982 lSSUE 22/08/2024');
+
+    expect(matches.dor[0]).toMatchObject({ value: '01/01/1982', pattern: 'dor-labeled' });
+    expect(matches.issue[0]).toMatchObject({ value: '22/08/2024', pattern: 'issue-labeled' });
+  });
+
+  it('should read a spouse after a mangled label', () => {
+    const { matches } = extractFieldsV2('SP0USE/PARTNR Becky Talbot-Van Beers');
+
+    expect(matches.spousePartner[0]).toMatchObject({
+      value: 'Becky Talbot-Van Beers',
+      confidence: 1.0,
+      pattern: 'spouse-pattern(SPOUSE/PARTNER~1)'
+    });
+  });
+
+  it('should read a spouse whose name is close to a label', () => {
+    ['Esther Talbot', 'Luther Smith', 'Don Smith', 'Dora Smith'].forEach(spouse => {
+      const { matches } = extractFieldsV2(`
+        Jason Van Beers 6486549
+        01/01/1982 22/08/2024 01/10/2024 - 30/09/2025
+        165 Keen Road
+        ${spouse} Rd 21, Geraldine 7991
+        Mack Rangatira
+      `);
+
+      expect(matches.spousePartner.map(m => m.value)).toEqual([spouse]);
+      expect(matches.other.map(m => m.value)).toEqual(['Mack Rangatira']);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from '@jest/globals';
+import { findIds, luhn, validateId } from '../idFormat.js';
+import { extractFieldsV2, extractTemplateFields } from '../extractFields.js';
+import type { DocumentTemplate } from '../templates.js';
+
+describe('validateId', () => {
+  const licence = { minLength: 6, maxLength: 8 };
+
+  it('should accept IDs of the right length', () => {
+    expect(validateId('6486549', licence)).toEqual({ value: '6486549', corrections: [] });
+    expect(validateId('7991', licence)).toBeNull();
+    expect(validateId('123456789', licence)).toBeNull();
+  });
+
+  it('should correct letters read in place of digits and record it', () => {
+    expect(validateId('648654O', licence)).toEqual({ value: '6486540', corrections: ['O→0'] });
+    expect(validateId('Beers', licence)).toBeNull();
+    expect(validateId('SOBBIOS', licence)).toBeNull();
+  });
+
+  it('should require one of the prefixes', () => {
+    const format = { minLength: 5, maxLength: 5, prefixes: ['FG'] };
+    expect(validateId('fg12345', format)?.value).toBe('FG12345');
+    expect(validateId('AB12345', format)).toBeNull();
+  });
+
+  it('should check the check digit, fixing a single lookalike digit', () => {
+    const format = { minLength: 8, maxLength: 8, checkDigit: luhn };
+    expect(luhn('79927398713')).toBe(true);
+    expect(validateId('12345674', format)).toEqual({ value: '12345674', corrections: [] });
+    expect(validateId('12346674', format)).toEqual({ value: '12345674', corrections: ['6→5@4'] });
+    // Two different single swaps pass, so neither can be trusted
+    expect(validateId('72345674', format)).toBeNull();
+  });
+});
+
+describe('findIds', () => {
+  it('should find IDs among other words', () => {
+    expect(findIds('Jason Van Beers 648654O', { minLength: 6, maxLength: 8 })).toMatchObject([
+      { value: '6486540', start: 16, end: 23 },
+    ]);
+  });
+});
+
+describe('ID extraction', () => {
+  it('should read an OCR-mangled licence number, and the name before it', () => {
+    const { matches } = extractFieldsV2('Jason Van Beers 648654O');
+
+    expect(matches.id[0]).toMatchObject({ value: '6486540', confidence: 0.9, corrections: ['O→0'] });
+    expect(matches.name[0].value).toBe('Jason Van Beers');
+  });
+
+  it('should drop labeled values that never validate', () => {
+    const template: DocumentTemplate = {
+      id: 'club',
+      name: 'Club',
+      description: '',
+      keywords: [],
+      fields: [{ key: 'number', label: 'No', aliases: ['NUMBER'], patterns: [], type: 'id', idFormat: { minLength: 5, maxLength: 5, prefixes: ['FG'] } }],
+    };
+
+    expect(extractTemplateFields('NUMBER FG1234S', template).matches.number[0]).toMatchObject({ value: 'FG12345', corrections: ['S→5'] });
+    expect(extractTemplateFields('NUMBER 12345', template).matches.number).toEqual([]);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from '@jest/globals';
+import { ImagePort, createImageClient, transferables } from '../imageClient.js';
+import type { ImageClient, ImageJobType, ImageRequest, ImageResponse, ImageResult } from '../imageJobs.js';
+
+// Stands in for the worker: keeps what was posted and answers when told to
+function fakePort() {
+  const posted: Array<{ message: ImageRequest; transfer: Transferable[] }> = [];
+  const terminated: boolean[] = [];
+  const port: ImagePort = {
+    postMessage: (message, transfer) => { posted.push({ message, transfer }); },
+    onmessage: null,
+    onerror: null,
+    terminate: () => { terminated.push(true); },
+  };
+  const answer = (data: ImageResponse) => port.onmessage?.({ data } as MessageEvent<ImageResponse>);
+  const fail = () => port.onerror?.({ message: 'OpenCV failed to load' } as ErrorEvent);
+  return { port, posted, terminated, answer, fail };
+}
+
+// What the page gives back for each job when it runs them itself
+const image = new Blob(['local']);
+const localResults: { [K in ImageJobType]: ImageResult<K> } = {
+  outline: { quad: null },
+  sample: { sharpness: 120, hash: '01', preview: image },
+  card: { card: image, found: true, angles: [0, 180], debug: [] },
+  rotate: { image },
+  finish: { image, quality: { level: 'good', problems: [], sharpness: 120, glare: 0, exposure: 128 }, width: 1280, height: 807, debug: [] },
+  pipeline: { image, debug: [] },
+};
+
+const local = (calls: string[]): ImageClient => ({
+  request: async <K extends ImageJobType>(type: K) => {
+    calls.push(type);
+    return localResults[type];
+  },
+});
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('imageClient', () => {
+  it('should match answers to requests whatever order they come in', async () => {
+    const { port, posted, answer } = fakePort();
+    const client = createImageClient(port, local([]));
+    const first = client.request('outline', { frame: {} as ImageBitmap, minArea: 0.03 });
+    const second = client.request('rotate', { image: new Blob(), angle: 90 });
+
+    const [a, b] = posted.map(p => p.message.id);
+    expect(a).not.toBe(b);
+    const rotated = new Blob(['rotated']);
+    answer({ id: b, result: { image: rotated } });
+    answer({ id: a, result: { quad: null } });
+    expect(await second).toEqual({ image: rotated });
+    expect(await first).toEqual({ quad: null });
+  });
+
+  it('should reject with the error the worker sent back', async () => {
+    const { port, posted, answer } = fakePort();
+    const client = createImageClient(port, local([]));
+    const request = client.request('pipeline', { image: new Blob(), steps: [] });
+    answer({ id: posted[0].message.id, error: 'Could not decode image' });
+    await expect(request).rejects.toThrow('Could not decode image');
+  });
+
+  it('should transfer live frames and copy everything else', () => {
+    const frame = {} as ImageBitmap;
+    expect(transferables({ frame, width: 1280 })).toEqual([frame]);
+    expect(transferables({ image: new Blob(), angle: 0 })).toEqual([]);
+
+    const { port, posted } = fakePort();
+    void createImageClient(port, local([])).request('sample', { frame, width: 1280 });
+    expect(posted[0].transfer).toEqual([frame]);
+  });
+
+  it('should run jobs on the page once the worker fails', async () => {
+    const { port, posted, terminated, fail } = fakePort();
+    const calls: string[] = [];
+    const client = createImageClient(port, local(calls));
+    const stranded = client.request('card', { image: new Blob(), cardWidth: 1280 });
+    fail();
+    await tick();
+    expect(terminated).toHaveLength(1);
+    expect(calls).toEqual(['card']);
+    expect(await stranded).toBe(localResults.card);
+
+    await client.request('rotate', { image: new Blob(), angle: 180 });
+    expect(calls).toEqual(['card', 'rotate']);
+    expect(posted).toHaveLength(1);
+  });
+
+  it('should run jobs on the page when OpenCV fails to load in the worker', async () => {
+    const { port, posted, terminated, answer } = fakePort();
+    const calls: string[] = [];
+    const client = createImageClient(port, local(calls));
+    const first = client.request('pipeline', { image: new Blob(), steps: [] });
+    const second = client.request('rotate', { image: new Blob(), angle: 90 });
+
+    answer({ id: posted[0].message.id, error: 'OpenCV did not load in time', unavailable: true });
+    expect(terminated).toHaveLength(1);
+    expect(await first).toBe(localResults.pipeline);
+    expect(await second).toBe(localResults.rotate);
+    expect(calls).toEqual(['pipeline', 'rotate']);
+
+    // A late answer for a job already run on the page is ignored
+    answer({ id: posted[1].message.id, error: 'OpenCV did not load in time', unavailable: true });
+    await client.request('card', { image: new Blob(), cardWidth: 1280 });
+    expect(calls).toEqual(['pipeline', 'rotate', 'card']);
+    expect(posted).toHaveLength(2);
+    expect(terminated).toHaveLength(1);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from '@jest/globals';
+import { gradeQuality, measureQuality } from '../imageQuality.js';
+
+// width x height gray image from a function of the pixel position
+function image(width: number, height: number, pixel: (x: number, y: number) => number): Uint8Array {
+  const gray = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) gray[y * width + x] = pixel(x, y);
+  }
+  return gray;
+}
+
+describe('imageQuality', () => {
+  it('should measure a flat image as blurred', () => {
+    const metrics = measureQuality(image(20, 20, () => 128), 20, 20);
+
+    expect(metrics).toEqual({ sharpness: 0, glare: 0, exposure: 128 });
+    expect(gradeQuality(metrics)).toMatchObject({ level: 'reject', problems: ['blurry'] });
+  });
+
+  it('should measure sharp edges', () => {
+    const checkerboard = image(20, 20, (x, y) => ((x + y) % 2 === 0 ? 60 : 180));
+    const metrics = measureQuality(checkerboard, 20, 20);
+
+    expect(metrics.sharpness).toBeGreaterThan(1000);
+    expect(gradeQuality(metrics)).toMatchObject({ level: 'good', problems: [] });
+  });
+
+  it('should measure glare as the blown-out share', () => {
+    // A quarter of the image is a white reflection
+    const metrics = measureQuality(image(20, 20, (x, y) => (x < 10 && y < 10 ? 255 : (x + y) % 2 === 0 ? 60 : 180)), 20, 20);
+
+    expect(metrics.glare).toBe(0.25);
+    expect(gradeQuality(metrics)).toMatchObject({ level: 'reject', problems: ['glare'] });
+  });
+
+  it('should warn about borderline exposure', () => {
+    expect(gradeQuality({ sharpness: 500, glare: 0, exposure: 45 })).toMatchObject({ level: 'warn', problems: ['too dark'] });
+    expect(gradeQuality({ sharpness: 500, glare: 0.05, exposure: 215 })).toMatchObject({ level: 'warn', problems: ['glare', 'too bright'] });
+  });
+});
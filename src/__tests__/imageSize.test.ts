@@ -0,0 +1,65 @@
+import { describe, it, expect } from '@jest/globals';
+import { dataUrlBytes, encodeWithin, fitWithin, imageDimensions } from '../imageSize.js';
+
+function jpeg(width: number, height: number): ArrayBuffer {
+  const view = new DataView(new ArrayBuffer(40));
+  view.setUint16(0, 0xffd8);
+  // An APP0 segment to skip, then the baseline frame header
+  view.setUint16(2, 0xffe0);
+  view.setUint16(4, 16);
+  view.setUint16(20, 0xffc0);
+  view.setUint16(22, 17);
+  view.setUint8(24, 8);
+  view.setUint16(25, height);
+  view.setUint16(27, width);
+  return view.buffer;
+}
+
+function png(width: number, height: number): ArrayBuffer {
+  const view = new DataView(new ArrayBuffer(24));
+  view.setUint32(0, 0x89504e47);
+  view.setUint32(4, 0x0d0a1a0a);
+  view.setUint32(8, 13);
+  view.setUint32(12, 0x49484452);
+  view.setUint32(16, width);
+  view.setUint32(20, height);
+  return view.buffer;
+}
+
+describe('imageSize', () => {
+  it('should read the size of JPEGs and PNGs from their headers', () => {
+    expect(imageDimensions(jpeg(4032, 3024))).toEqual({ width: 4032, height: 3024 });
+    expect(imageDimensions(png(1170, 2532))).toEqual({ width: 1170, height: 2532 });
+    expect(imageDimensions(new Uint8Array([0x25, 0x50, 0x44, 0x46]).buffer)).toBeNull();
+  });
+
+  it('should fit the longer side without upscaling', () => {
+    expect(fitWithin({ width: 4032, height: 3024 }, 2400)).toEqual({ width: 2400, height: 1800 });
+    expect(fitWithin({ width: 3024, height: 4032 }, 2400)).toEqual({ width: 1800, height: 2400 });
+    expect(fitWithin({ width: 800, height: 600 }, 2400)).toEqual({ width: 800, height: 600 });
+  });
+
+  it('should measure a data URL by the bytes it decodes to', () => {
+    expect(dataUrlBytes('data:image/jpeg;base64,AAAA')).toBe(3);
+    expect(dataUrlBytes('data:image/jpeg;base64,AAA=')).toBe(2);
+    expect(dataUrlBytes('data:image/jpeg;base64,AA==')).toBe(1);
+  });
+
+  it('should keep the highest quality that fits', () => {
+    // Decoded size grows with quality, 999 bytes at full quality
+    const tried: number[] = [];
+    const encode = (quality: number) => {
+      tried.push(quality);
+      return `data:image/jpeg;base64,${'A'.repeat(Math.round(quality * 333) * 4)}`;
+    };
+    const encoded = encodeWithin(encode, 600, 0.3, 1);
+    expect(dataUrlBytes(encoded)).toBeLessThanOrEqual(600);
+    expect(dataUrlBytes(encoded)).toBeGreaterThan(580);
+    // The data URL itself is a third longer than the budget
+    expect(encoded.length).toBeGreaterThan(780);
+    expect(tried).toHaveLength(7);
+
+    expect(dataUrlBytes(encodeWithin(encode, 2000, 0.3, 1))).toBe(999);
+    expect(dataUrlBytes(encodeWithin(encode, 100, 0.3, 1))).toBe(300);
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from '@jest/globals';
+import { detectInputFormat, pageName } from '../inputFormat.js';
+
+const bytes = (...parts: Array<string | number[]>) =>
+  new Uint8Array(parts.flatMap(part => (typeof part === 'string' ? part.split('').map(c => c.charCodeAt(0)) : part)));
+
+describe('inputFormat', () => {
+  it('should recognise formats from their first bytes', () => {
+    expect(detectInputFormat(bytes('%PDF-1.7\n'))).toBe('pdf');
+    expect(detectInputFormat(bytes('II*', [0], [8, 0, 0, 0]))).toBe('tiff');
+    expect(detectInputFormat(bytes('MM', [0], '*', [0, 0, 0, 8]))).toBe('tiff');
+    expect(detectInputFormat(bytes([0, 0, 0, 24], 'ftypheic', [0, 0, 0, 0]))).toBe('heic');
+    expect(detectInputFormat(bytes([0xff, 0xd8, 0xff, 0xe1]))).toBe('image');
+  });
+
+  it('should not take an AVIF for a HEIC photo', () => {
+    expect(detectInputFormat(bytes([0, 0, 0, 28], 'ftypavif', [0, 0, 0, 0]), 'image/avif')).toBe('image');
+  });
+
+  it('should fall back to the MIME type and extension', () => {
+    expect(detectInputFormat(new Uint8Array(0), 'image/heif')).toBe('heic');
+    expect(detectInputFormat(new Uint8Array(0), '', 'Scan.TIF')).toBe('tiff');
+    expect(detectInputFormat(new Uint8Array(0), '', 'photo')).toBe('image');
+  });
+
+  it('should number the pages of multi-page uploads', () => {
+    expect(pageName('scan.pdf', 1)).toBe('scan.pdf page 2');
+    expect(pageName('card.jpg')).toBe('card.jpg');
+  });
+});
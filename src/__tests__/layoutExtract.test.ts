@@ -0,0 +1,102 @@
+import { describe, it, expect } from '@jest/globals';
+import type { Page } from 'tesseract.js';
+import { extractFieldsFromLayout, toOcrWords } from '../layoutExtract.js';
+import { getTemplate } from '../templates.js';
+import type { OcrWord } from '../extractFields.js';
+
+// How tesseract.js turns the result it gets from its worker into a Page
+const circularize: (page: unknown) => Page = require('tesseract.js/src/utils/circularize.js');
+
+// A page as Tesseract reads it, in paragraphs of lines of [text, confidence] words
+function tesseractPage(paragraphs: Array<Array<Array<[string, number]>>>): Page {
+  let row = 0;
+  const blocks = [{
+    paragraphs: paragraphs.map(lines => ({
+      lines: lines.map(line => {
+        const y0 = row++ * 20;
+        const words = line.map(([text, confidence], index) => ({ text, confidence, symbols: [], bbox: { x0: index * 60, y0, x1: index * 60 + 50, y1: y0 + 15 } }));
+        return { text: line.map(([text]) => text).join(' '), words };
+      }),
+    })),
+  }];
+  return circularize({ text: paragraphs.map(lines => lines.map(line => line.map(([text]) => text).join(' ')).join('\n')).join('\n\n'), blocks });
+}
+
+const word = (text: string, line: number, x0: number, y0: number, x1: number, y1: number): OcrWord => ({
+  text, line, confidence: 90, bbox: { x0, y0, x1, y1 }
+});
+
+// Header row of labels with the values printed underneath, as on the family season licence
+const familyCard: OcrWord[] = [
+  word('NAME', 0, 10, 10, 50, 20),
+  word('Jason', 1, 10, 25, 50, 35),
+  word('Van', 1, 55, 25, 75, 35),
+  word('Beers', 1, 80, 25, 120, 35),
+  word('6486549', 1, 200, 25, 260, 35),
+  word('DOR', 2, 10, 45, 40, 55),
+  word('ISSUE', 2, 120, 45, 170, 55),
+  word('VALID', 2, 240, 45, 290, 55),
+  word('22/08/2024', 3, 10, 60, 90, 70),
+  word('01/01/1982', 3, 120, 60, 200, 70),
+  word('01/10/2024', 3, 240, 60, 320, 70),
+  word('-', 3, 325, 60, 330, 70),
+  word('30/09/2025', 3, 335, 60, 415, 70),
+  word('SPOUSE/PARTNER', 4, 10, 80, 120, 90),
+  word('Becky', 4, 130, 80, 170, 90),
+  word('Talbot-Van', 4, 175, 80, 250, 90),
+  word('Beers', 4, 255, 80, 295, 90),
+];
+
+describe('extractFieldsFromLayout', () => {
+  const template = getTemplate('family_season_licence')!;
+
+  it('should read values below their labels by column, not by date order', () => {
+    const { matches } = extractFieldsFromLayout(familyCard, template);
+
+    expect(matches.dor[0]).toMatchObject({ value: '22/08/2024', pattern: 'dor-layout-below', line: 3 });
+    expect(matches.issue[0]).toMatchObject({ value: '01/01/1982', pattern: 'issue-layout-below' });
+    expect(matches.valid[0]).toMatchObject({ value: '01/10/2024 - 30/09/2025', pattern: 'valid-layout-below' });
+  });
+
+  it('should read values to the right of their label', () => {
+    const { matches } = extractFieldsFromLayout(familyCard, template);
+
+    expect(matches.spousePartner[0]).toMatchObject({
+      value: 'Becky Talbot-Van Beers',
+      pattern: 'spousePartner-layout-right',
+      bbox: { x0: 130, y0: 80, x1: 295, y1: 90 }
+    });
+  });
+
+  it('should store the bbox of the value words', () => {
+    const { matches } = extractFieldsFromLayout(familyCard, template);
+
+    expect(matches.name[0]).toMatchObject({
+      value: 'Jason Van Beers',
+      bbox: { x0: 10, y0: 25, x1: 120, y1: 35 }
+    });
+  });
+
+  it('should number the lines of a Tesseract page across paragraphs', () => {
+    const page = tesseractPage([
+      [[['NAME', 95], ['Jason', 90]], [['Van', 80], ['Beers', 70]]],
+      [[['DOR', 92]]],
+    ]);
+
+    expect(toOcrWords(page).map(w => [w.text, w.line])).toEqual([['NAME', 0], ['Jason', 0], ['Van', 1], ['Beers', 1], ['DOR', 2]]);
+  });
+
+  it('should give layout matches the line of their value words on a Tesseract page', () => {
+    const words = toOcrWords(tesseractPage([[[['NAME', 95]], [['Jason', 90], ['Van', 80], ['Beers', 70]]]]));
+    const { matches } = extractFieldsFromLayout(words, getTemplate('family_season_licence')!);
+
+    expect(matches.name[0]).toMatchObject({ value: 'Jason Van Beers', line: 1 });
+  });
+
+  it('should handle no words', () => {
+    const result = extractFieldsFromLayout([], template);
+
+    expect(result.success).toBe(false);
+    expect(result.matches.name).toEqual([]);
+  });
+});
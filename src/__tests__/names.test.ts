@@ -0,0 +1,38 @@
+import { describe, it, expect } from '@jest/globals';
+import { cleanName, normalizeName, properCase, splitName } from '../names.js';
+import { extractFieldsV2 } from '../extractFields.js';
+
+describe('names', () => {
+  it('should strip trailing IDs and noise', () => {
+    expect(cleanName('Jason Van Beers 6486549')).toBe('Jason Van Beers');
+    expect(cleanName('| Jason Van Beers , i')).toBe('Jason Van Beers');
+  });
+
+  it('should proper-case names OCR read in one case', () => {
+    expect(properCase('JASON VAN BEERS')).toBe('Jason Van Beers');
+    expect(properCase('becky talbot-van beers')).toBe('Becky Talbot-Van Beers');
+    expect(properCase('MARIA DE SOUZA')).toBe('Maria de Souza');
+    expect(properCase("SEAN O'BRIEN MCDONALD")).toBe("Sean O'Brien McDonald");
+    expect(properCase('Anna DeVries')).toBe('Anna DeVries');
+  });
+
+  it('should split given and family names at particles and hyphenated surnames', () => {
+    expect(splitName('Jason Van Beers')).toEqual({ full: 'Jason Van Beers', given: 'Jason', family: 'Van Beers' });
+    expect(splitName('Becky Talbot-Van Beers')).toMatchObject({ given: 'Becky', family: 'Talbot-Van Beers' });
+    expect(splitName('Mary Jane Smith')).toMatchObject({ given: 'Mary Jane', family: 'Smith' });
+    expect(splitName('Anne-Marie Smith')).toMatchObject({ given: 'Anne-Marie', family: 'Smith' });
+    expect(splitName('Ian Mac Donald')).toMatchObject({ given: 'Ian', family: 'Mac Donald' });
+    expect(splitName('Cher')).toMatchObject({ given: 'Cher', family: '' });
+  });
+
+  it('should normalize in one go', () => {
+    expect(normalizeName('JASON VAN BEERS 6486549')).toEqual({ full: 'Jason Van Beers', given: 'Jason', family: 'Van Beers' });
+  });
+
+  it('should store normalized names from the licence extractor', () => {
+    const { matches } = extractFieldsV2('JASON VAN BEERS 6486549\nSPOUSE/PARTNER BECKY TALBOT-VAN BEERS');
+
+    expect(matches.name[0].value).toBe('Jason Van Beers');
+    expect(matches.spousePartner[0].value).toBe('Becky Talbot-Van Beers');
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from '@jest/globals';
+import { exifAngle, exifOrientation, normalizeAngle, osdAngle, textLineAxis } from '../orientation.js';
+
+// SOI, an APP1 Exif segment with one IFD entry for the orientation tag, then the start of a frame
+function jpeg(orientation: number, little: boolean): ArrayBuffer {
+  const bytes = new Uint8Array(40);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, 0xffd8);
+  view.setUint16(2, 0xffe1);
+  view.setUint16(4, 34);
+  view.setUint32(6, 0x45786966);
+  const tiff = 12;
+  view.setUint16(tiff, little ? 0x4949 : 0x4d4d);
+  view.setUint16(tiff + 2, 42, little);
+  view.setUint32(tiff + 4, 8, little);
+  view.setUint16(tiff + 8, 1, little);
+  view.setUint16(tiff + 10, 0x0112, little);
+  view.setUint16(tiff + 12, 3, little);
+  view.setUint32(tiff + 14, 1, little);
+  view.setUint16(tiff + 18, orientation, little);
+  return bytes.buffer;
+}
+
+describe('orientation', () => {
+  it('should read the EXIF orientation of a JPEG', () => {
+    expect(exifOrientation(jpeg(6, false))).toBe(6);
+    expect(exifOrientation(jpeg(3, true))).toBe(3);
+    expect(exifOrientation(new Uint8Array([0x89, 0x50, 0x4e, 0x47]).buffer)).toBe(1);
+  });
+
+  it('should turn EXIF orientations into clockwise rotations', () => {
+    expect([1, 3, 6, 8].map(exifAngle)).toEqual([0, 180, 90, 270]);
+  });
+
+  it('should trust OSD only when it is confident', () => {
+    expect(osdAngle({ orientation_degrees: 90, orientation_confidence: 8.5 })).toBe(90);
+    expect(osdAngle({ orientation_degrees: 180, orientation_confidence: 0.4 })).toBeNull();
+    expect(osdAngle({ orientation_degrees: null, orientation_confidence: null })).toBeNull();
+  });
+
+  it('should normalize angles to right angles', () => {
+    expect(normalizeAngle(450)).toBe(90);
+    expect(normalizeAngle(-90)).toBe(270);
+  });
+
+  it('should tell which way the text lines run', () => {
+    const width = 40;
+    const height = 20;
+    // Two lines of "text": rows 4-7 and 12-15 are mostly ink
+    const lines = Array.from({ length: width * height }, (_, i) => {
+      const y = Math.floor(i / width);
+      return (y >= 4 && y < 8) || (y >= 12 && y < 16) ? (i % 3 === 0 ? 0 : 255) : 0;
+    });
+    expect(textLineAxis(lines, width, height)).toBe('horizontal');
+
+    // The same, turned on its side
+    const turned = Array.from({ length: width * height }, (_, i) => lines[(i % width) % height * width + Math.floor(i / width)]);
+    expect(textLineAxis(turned, width, height)).toBe('vertical');
+  });
+});
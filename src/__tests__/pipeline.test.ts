@@ -0,0 +1,26 @@
+import { describe, it, expect } from '@jest/globals';
+import { DEFAULT_PREPROCESS, cropRect, describeStep, oddSize } from '../pipeline.js';
+
+describe('pipeline', () => {
+  it('should keep the original preprocessing as the default', () => {
+    expect(DEFAULT_PREPROCESS.map(describeStep)).toEqual(['grayscale', 'threshold adaptive-mean 15/10', 'invert']);
+  });
+
+  it('should describe each step for its debug image', () => {
+    expect(describeStep({ op: 'scale', width: 1600 })).toBe('scale 1600px');
+    expect(describeStep({ op: 'clahe', clipLimit: 2, tileSize: 8 })).toBe('clahe 2/8');
+    expect(describeStep({ op: 'threshold', method: 'otsu' })).toBe('threshold otsu');
+    expect(describeStep({ op: 'crop', top: 0.1, right: 0, bottom: 0.1, left: 0 })).toBe('crop 0.1/0/0.1/0');
+  });
+
+  it('should turn a crop into a pixel rectangle', () => {
+    expect(cropRect({ op: 'crop', top: 0.1, right: 0.05, bottom: 0.2, left: 0.05 }, 1000, 600)).toEqual({ x: 50, y: 60, width: 900, height: 420 });
+    expect(cropRect({ op: 'crop', top: 0.6, right: 0, bottom: 0.6, left: 0 }, 100, 100).height).toBe(1);
+  });
+
+  it('should round kernel and block sizes to odd numbers', () => {
+    expect(oddSize(15)).toBe(15);
+    expect(oddSize(16)).toBe(17);
+    expect(oddSize(0)).toBe(1);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from '@jest/globals';
+import { REGION_CONFIDENCE, regionCharset, regionFields, regionMatch, regionMatches, regionRectangle } from '../regions.js';
+import type { DocumentTemplate, TemplateField } from '../templates.js';
+
+const field = (key: string, type: TemplateField['type'], extra: Partial<TemplateField> = {}): TemplateField =>
+  ({ key, label: key, aliases: [], patterns: [], type, ...extra });
+
+const rectangle = { left: 100, top: 50, width: 200, height: 40 };
+
+describe('regions', () => {
+  it('should only list fields with a region', () => {
+    const template: DocumentTemplate = {
+      id: 'card',
+      name: 'Card',
+      description: '',
+      keywords: [],
+      fields: [field('id', 'id', { region: { x: 0.6, y: 0.1, width: 0.3, height: 0.1 } }), field('name', 'name')],
+    };
+    expect(regionFields(template).map(f => f.key)).toEqual(['id']);
+  });
+
+  it('should restrict each field to the characters it can hold', () => {
+    expect(regionCharset(field('dor', 'date'))).toBe('0123456789/');
+    expect(regionCharset(field('id', 'id'))).toBe('0123456789');
+    expect(regionCharset(field('id', 'id', { idFormat: { minLength: 6, maxLength: 8, prefixes: ['FG'] } }))).toBe('0123456789FGfg');
+    expect(regionCharset(field('name', 'name'))).toMatch(/^[A-Za-z'-]+$/);
+    expect(regionCharset(field('other', 'text'))).toBe('');
+  });
+
+  it('should turn a region into a pixel rectangle inside the image', () => {
+    expect(regionRectangle({ x: 0.1, y: 0.25, width: 0.5, height: 0.1 }, 1280, 800)).toEqual({ left: 128, top: 200, width: 640, height: 80 });
+    expect(regionRectangle({ x: 0.8, y: 0.9, width: 0.5, height: 0.5 }, 100, 100)).toEqual({ left: 80, top: 90, width: 20, height: 10 });
+  });
+
+  it('should read a region into a high-confidence candidate', () => {
+    const match = regionMatch(field('dor', 'date', { dateKind: 'birth', line: 3 }), ' 12/O4/1985\n', rectangle);
+    expect(match).toMatchObject({ value: '12/04/1985', confidence: REGION_CONFIDENCE, line: 3, pattern: 'dor-region' });
+    expect(match?.bbox).toEqual({ x0: 100, y0: 50, x1: 300, y1: 90 });
+    expect(regionMatch(field('dor', 'date'), '///', rectangle)).toBeNull();
+  });
+
+  it('should key region candidates by field and skip unreadable ones', () => {
+    const matches = regionMatches([
+      { field: field('name', 'name'), text: 'JANE SMITH', rectangle },
+      { field: field('id', 'id'), text: '12', rectangle },
+    ]);
+    expect(Object.keys(matches)).toEqual(['name']);
+    expect(matches.name[0].pattern).toBe('name-region');
+  });
+});
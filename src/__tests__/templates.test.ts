@@ -0,0 +1,75 @@
+import { describe, it, expect } from '@jest/globals';
+import { detectTemplate, extractWithTemplate, getTemplate, registerTemplate } from '../templates.js';
+
+describe('templates', () => {
+  it('should detect the family season licence', () => {
+    const input = `
+      FAMILY SEASON LICENCE
+      NAME John Smith
+      DOR 01/01/1990
+      SPOUSE/PARTNER Jane Smith
+    `;
+
+    expect(detectTemplate(input).id).toBe('family_season_licence');
+  });
+
+  it('should detect a membership card', () => {
+    const input = `
+      ALPINE CLUB MEMBERSHIP
+      MEMBER NO A123456
+      NAME Jane Doe
+      EXPIRES 31/03/2026
+    `;
+
+    expect(detectTemplate(input).id).toBe('membership_card');
+  });
+
+  it('should extract labeled fields with the generic extractor', () => {
+    const input = `
+      ALPINE CLUB MEMBERSHIP
+      MEMBER NO A123456
+      NAME
+      Jane Doe
+      EXPIRES 31/3/26
+      CLASS Senior
+    `;
+
+    const template = getTemplate('membership_card')!;
+    const result = extractWithTemplate(input, template);
+
+    expect(result.success).toBe(true);
+    expect(result.matches.memberNumber[0].value).toBe('A123456');
+    expect(result.matches.name[0]).toMatchObject({ value: 'Jane Doe', pattern: 'name-next-line' });
+    expect(result.matches.expiry[0].value).toBe('31/03/2026');
+    expect(result.matches.class[0].value).toBe('Senior');
+  });
+
+  it('should report missing required fields', () => {
+    const template = getTemplate('permit')!;
+    const result = extractWithTemplate('PERMIT HOLDER Jane Doe', template);
+
+    expect(result.success).toBe(false);
+    expect(result.matches.expiry).toEqual([]);
+  });
+
+  it('should use registered templates', () => {
+    registerTemplate({
+      id: 'boat_ramp',
+      name: 'Boat Ramp Pass',
+      description: 'Seasonal boat ramp pass',
+      keywords: ['RAMP', 'VESSEL'],
+      fields: [
+        { key: 'vessel', label: 'Vessel', aliases: ['VESSEL'], patterns: [], type: 'text', required: true },
+      ],
+    });
+
+    const input = `
+      BOAT RAMP PASS
+      VESSEL Sea Breeze
+    `;
+
+    const template = detectTemplate(input);
+    expect(template.id).toBe('boat_ramp');
+    expect(extractWithTemplate(input, template).matches.vessel[0].value).toBe('Sea Breeze');
+  });
+});
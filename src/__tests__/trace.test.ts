@@ -0,0 +1,47 @@
+import { describe, it, expect } from '@jest/globals';
+import { extractFieldsV2 } from '../extractFields.js';
+import { getTemplate, extractWithTemplate } from '../templates.js';
+
+const licence = `
+  NAME John Smith
+  DOR 01/01/1990 ISSUE
+  SPOUSE/PARTNER Jane Smith
+  OTHER
+  Child 1
+  12 Long Road
+  Licence
+`;
+
+describe('extraction trace', () => {
+  it('should only build a trace when asked', () => {
+    expect(extractFieldsV2(licence).trace).toBeUndefined();
+  });
+
+  it('should list the rules that fired on each line', () => {
+    const { trace } = extractFieldsV2(licence, undefined, { trace: true });
+
+    expect(trace?.lines[0]).toMatchObject({ text: 'NAME John Smith' });
+    expect(trace?.lines[0].fired).toContainEqual({ field: 'name', pattern: 'name-pattern', value: 'John Smith', confidence: 1.0 });
+  });
+
+  it('should say why rules were rejected', () => {
+    const { trace } = extractFieldsV2(licence, undefined, { trace: true });
+
+    expect(trace?.lines[1].rejected).toContainEqual({ rule: 'issue-labeled', reason: 'no date after ISSUE' });
+    expect(trace?.lines[5].rejected).toContainEqual({ rule: 'other-section', reason: `"12 Long Road" doesn't look like a name` });
+  });
+
+  it('should record the winner of each field', () => {
+    const { trace } = extractFieldsV2(licence, undefined, { trace: true });
+
+    expect(trace?.winners.name?.value).toBe('John Smith');
+    expect(trace?.winners.issue).toBeNull();
+  });
+
+  it('should trace the generic template extractor too', () => {
+    const template = getTemplate('membership_card')!;
+    const { trace } = extractWithTemplate('NAME\n12/05/2024', template, { trace: true });
+
+    expect(trace?.lines[0].rejected).toContainEqual({ rule: 'name-next-line', reason: 'next line "12/05/2024" isn\'t a valid name' });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from '@jest/globals';
+import { validateMatches } from '../validateFields.js';
+import { getTemplate } from '../templates.js';
+import type { FieldMatch } from '../extractFields.js';
+
+const match = (value: string, confidence: number, pattern = 'test'): FieldMatch => ({
+  value, confidence, line: 0, pattern, position: 0
+});
+
+describe('validateMatches', () => {
+  const template = getTemplate('family_season_licence')!;
+
+  it('should not warn when the fields agree', () => {
+    const { warnings } = validateMatches({
+      id: [match('6486549', 1)],
+      dor: [match('01/01/1982', 0.9)],
+      issue: [match('22/08/2024', 0.85)],
+      valid: [match('01/10/2024 - 30/09/2025', 0.95)],
+    }, template);
+
+    expect(warnings).toEqual([]);
+  });
+
+  it('should prefer candidates that agree with the other fields', () => {
+    const { matches, warnings } = validateMatches({
+      dor: [match('22/08/2024', 0.9, 'dor-with-range'), match('01/01/1982', 0.8, 'dor-age-range')],
+      issue: [match('22/08/2024', 0.85)],
+      valid: [match('01/10/2024 - 30/09/2025', 0.95)],
+    }, template);
+
+    expect(matches.dor[0].value).toBe('01/01/1982');
+    expect(matches.dor[1].confidence).toBeCloseTo(0.63);
+    expect(warnings).toEqual([]);
+  });
+
+  it('should warn about conflicts that remain', () => {
+    const { warnings } = validateMatches({
+      id: [match('7991', 1)],
+      dor: [match('01/01/2025', 1)],
+      issue: [match('22/08/2024', 1)],
+      valid: [match('01/10/2024 - 30/09/2027', 1)],
+    }, template);
+
+    expect(warnings.map(w => w.code)).toEqual(['dor-after-issue', 'valid-not-season', 'id-format']);
+    expect(warnings[0].fields).toEqual(['dor', 'issue']);
+  });
+
+  it('should not change the input matches', () => {
+    const input = { dor: [match('01/01/2025', 1)], issue: [match('22/08/2024', 1)] };
+    validateMatches(input, template);
+
+    expect(input.dor[0].confidence).toBe(1);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from '@jest/globals';
+import { createPool, createSequencer, poolSize } from '../workerPool.js';
+
+// A promise and the function that settles it, to finish jobs in any order
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(r => { resolve = r; });
+  return { promise, resolve };
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('workerPool', () => {
+  it('should leave a core free and cap the pool', () => {
+    expect(poolSize(8, 4)).toBe(4);
+    expect(poolSize(4, 4)).toBe(3);
+    expect(poolSize(1, 4)).toBe(1);
+    expect(poolSize(undefined, 4)).toBe(1);
+  });
+
+  it('should run one job per worker and queue the rest in order', async () => {
+    const pool = createPool(['a', 'b']);
+    const started: string[] = [];
+    const jobs = [deferred<void>(), deferred<void>(), deferred<void>()];
+    const runs = jobs.map((job, index) => pool.run(async worker => {
+      started.push(`${index}:${worker}`);
+      await job.promise;
+      return index;
+    }));
+
+    await tick();
+    expect(started).toEqual(['0:a', '1:b']);
+    expect(pool.pending()).toBe(3);
+
+    jobs[1].resolve();
+    await tick();
+    expect(started).toEqual(['0:a', '1:b', '2:b']);
+
+    jobs[0].resolve();
+    jobs[2].resolve();
+    expect(await Promise.all(runs)).toEqual([0, 1, 2]);
+    expect(pool.pending()).toBe(0);
+  });
+
+  it('should free the worker when a job fails', async () => {
+    const pool = createPool(['a']);
+    await expect(pool.run(async () => { throw new Error('unreadable'); })).rejects.toThrow('unreadable');
+    expect(await pool.run(async (worker, slot) => `${worker}${slot}`)).toBe('a0');
+  });
+
+  it('should apply results in the order jobs were submitted', () => {
+    const sequencer = createSequencer();
+    const applied: number[] = [];
+    const tickets = [sequencer.ticket(), sequencer.ticket(), sequencer.ticket()];
+
+    sequencer.release(tickets[2], () => applied.push(2));
+    sequencer.release(tickets[1], () => applied.push(1));
+    expect(applied).toEqual([]);
+
+    sequencer.release(tickets[0], () => applied.push(0));
+    expect(applied).toEqual([0, 1, 2]);
+  });
+});
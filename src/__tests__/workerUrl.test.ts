@@ -0,0 +1,19 @@
+import { describe, it, expect } from '@jest/globals';
+import { assetUrl, workerShim } from '../workerUrl.js';
+
+describe('workerUrl', () => {
+  it('should resolve workers next to the bundle, not the page', () => {
+    expect(assetUrl('imageWorker.js', 'https://kiwikid.github.io/slick-scan/slick-scan.js', 'https://example.com/members/scan.html'))
+      .toBe('https://kiwikid.github.io/slick-scan/imageWorker.js');
+    expect(assetUrl('imageWorker.js', undefined, 'https://example.com/members/scan.html'))
+      .toBe('https://example.com/members/imageWorker.js');
+  });
+
+  it('should shim workers from another origin only', () => {
+    const url = 'https://kiwikid.github.io/slick-scan/imageWorker.js';
+    expect(workerShim(url, 'https://kiwikid.github.io', 'classic')).toBeNull();
+    expect(workerShim(url, 'https://example.com', 'classic')).toBe(`importScripts("${url}");`);
+    expect(workerShim('https://kiwikid.github.io/slick-scan/pdf.worker.min.mjs', 'https://example.com', 'module'))
+      .toBe('import "https://kiwikid.github.io/slick-scan/pdf.worker.min.mjs";');
+  });
+});
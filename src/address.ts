@@ -0,0 +1,99 @@
+import { properCase } from './names';
+
+// A New Zealand postal address, e.g. "165 Keen Road, RD 21, Geraldine 7991"
+export interface PostalAddress {
+  street: string;
+  // Rural delivery route, e.g. 'RD 21'
+  ruralDelivery: string;
+  town: string;
+  postcode: string;
+}
+
+export interface FoundAddress {
+  address: PostalAddress;
+  // Where the address starts in the line, anything before it (e.g. a name) isn't part of it
+  start: number;
+}
+
+const STREET_TYPES = [
+  'Road', 'Rd', 'Street', 'St', 'Avenue', 'Ave', 'Lane', 'Ln', 'Drive', 'Dr', 'Place', 'Pl', 'Crescent', 'Cres',
+  'Terrace', 'Tce', 'Way', 'Highway', 'Hwy', 'Court', 'Ct', 'Parade', 'Grove', 'Close', 'Boulevard', 'Quay', 'Rise',
+];
+
+// "165 Keen Road" or "Keen Road" - but not "Rd 21", which is a rural delivery route
+const STREET = new RegExp(
+  `(?:^|\\s)(?:(\\d+[A-Za-z]?(?:\\/\\d+)?)\\s+)?([A-Za-z][A-Za-z'-]*(?:\\s+[A-Za-z][A-Za-z'-]*){0,3}?)\\s+(${STREET_TYPES.join('|')})\\b\\.?(?!\\s*\\d)`,
+  'i'
+);
+const RURAL_DELIVERY = /\bR\.?\s?D\.?\s*(\d{1,3})\b/i;
+const POSTCODE = /(?:^|[\s,])(\d{4})\s*$/;
+
+function streetType(type: string): string {
+  return STREET_TYPES.find(known => known.toLowerCase() === type.toLowerCase()) ?? type;
+}
+
+export function emptyAddress(): PostalAddress {
+  return { street: '', ruralDelivery: '', town: '', postcode: '' };
+}
+
+// Find the address parts on one line of OCR text, null when there are none
+export function findAddress(line: string): FoundAddress | null {
+  const address = emptyAddress();
+  const starts: number[] = [];
+  let partsEnd = 0;
+
+  const street = line.match(STREET);
+  // A street without a number only counts when it is the whole start of the line
+  if (street && street.index !== undefined && (street[1] || street.index === 0)) {
+    const [, number, name, type] = street;
+    address.street = [number, properCase(name), streetType(type)].filter(Boolean).join(' ');
+    starts.push(street.index + (street[0].length - street[0].trimStart().length));
+    partsEnd = Math.max(partsEnd, street.index + street[0].length);
+  }
+
+  const rd = line.match(RURAL_DELIVERY);
+  if (rd && rd.index !== undefined) {
+    address.ruralDelivery = `RD ${rd[1]}`;
+    starts.push(rd.index);
+    partsEnd = Math.max(partsEnd, rd.index + rd[0].length);
+  }
+
+  const postcode = line.match(POSTCODE);
+  if (postcode && postcode.index !== undefined) {
+    const before = line.slice(partsEnd, postcode.index);
+    // The town follows the last comma, or is all there is when the line is just "Town 1234"
+    const town = before.includes(',') ? before.slice(before.lastIndexOf(',') + 1) : partsEnd > 0 || /^[A-Za-z .'-]+$/.test(before) ? before : '';
+    if (/^[\s,]*[A-Za-z][A-Za-z .'-]*[\s,]*$/.test(town)) {
+      address.town = properCase(town.replace(/,/g, '').trim());
+      address.postcode = postcode[1];
+      starts.push(partsEnd > 0 ? partsEnd : line.indexOf(town.trim()));
+    }
+  }
+
+  if (starts.length === 0) return null;
+  return { address, start: Math.min(...starts) };
+}
+
+// Parts of a whole address, e.g. a field value joined from several lines
+export function parseAddress(text: string): PostalAddress {
+  return text
+    .split(/\n/)
+    .map(line => findAddress(line)?.address ?? emptyAddress())
+    .reduce(mergeAddress, emptyAddress());
+}
+
+// Fill the gaps in one address with the parts of another, e.g. the street line and the town line
+export function mergeAddress(a: PostalAddress, b: PostalAddress): PostalAddress {
+  return {
+    street: a.street || b.street,
+    ruralDelivery: a.ruralDelivery || b.ruralDelivery,
+    town: a.town || b.town,
+    postcode: a.postcode || b.postcode,
+  };
+}
+
+export function formatAddress(address: PostalAddress): string {
+  return [address.street, address.ruralDelivery, [address.town, address.postcode].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ');
+}
@@ -0,0 +1,68 @@
+import type { CardFraming } from './cardQuad';
+
+// Hands-free capture: take the photo once the live frame has been good for a few polls in a row
+
+// What the live polling loop measured on one camera frame
+export interface LiveFrame {
+  // Non-whitespace characters Tesseract read
+  score: number;
+  sharpness: number;
+  // averageHash of the frame, to spot the same card still in view
+  hash: string;
+}
+
+export interface AutoCaptureState {
+  // Good polls in a row
+  streak: number;
+  lastCaptureAt: number;
+  // Hash of the last capture, forgotten once the card leaves the frame
+  lastHash: string | null;
+}
+
+export const AUTO_CAPTURE = {
+  minScore: 100,
+  minSharpness: 60,
+  // Good polls in a row before capturing
+  polls: 3,
+  cooldownMs: 5000,
+  // Share of hash bits that may differ for a frame to still be the card just captured
+  duplicateDistance: 0.1,
+};
+
+export const initialAutoCapture: AutoCaptureState = { streak: 0, lastCaptureAt: 0, lastHash: null };
+
+// One bit per cell: brighter than the mean or not. gray is a small downscaled frame, e.g. 16 x 16.
+export function averageHash(gray: ArrayLike<number>): string {
+  const pixels = Array.from(gray);
+  const mean = pixels.reduce((sum, pixel) => sum + pixel, 0) / pixels.length;
+  return pixels.map(pixel => (pixel > mean ? '1' : '0')).join('');
+}
+
+// Share of bits that differ
+export function hashDistance(a: string, b: string): number {
+  if (a.length !== b.length || a.length === 0) return 1;
+  let differing = 0;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) differing++;
+  return differing / a.length;
+}
+
+// Advance the auto-capture state by one poll. allowDuplicates is for rescans, where capturing
+// the same card again is the point.
+export function nextAutoCapture(
+  state: AutoCaptureState,
+  frame: LiveFrame,
+  framing: CardFraming,
+  now: number,
+  allowDuplicates = false,
+  options = AUTO_CAPTURE
+): { state: AutoCaptureState; capture: boolean } {
+  const lastHash = framing === 'none' ? null : state.lastHash;
+  const good = frame.score >= options.minScore && framing === 'good' && frame.sharpness >= options.minSharpness;
+  const streak = good ? state.streak + 1 : 0;
+  const waiting = { state: { ...state, streak, lastHash }, capture: false };
+
+  if (streak < options.polls) return waiting;
+  if (now - state.lastCaptureAt < options.cooldownMs) return waiting;
+  if (!allowDuplicates && lastHash && hashDistance(lastHash, frame.hash) <= options.duplicateDistance) return waiting;
+  return { state: { streak: 0, lastCaptureAt: now, lastHash: frame.hash }, capture: true };
+}
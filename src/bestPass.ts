@@ -0,0 +1,49 @@
+import type { FieldMatches } from './extractFields';
+import type { DocumentTemplate } from './templates';
+import type { ScanWarning } from './validateFields';
+
+// Auto-best mode: read a capture with several scan modes and keep the one that read the card best
+
+export interface PassScore {
+  // Share of required fields with a value
+  completeness: number;
+  // Mean confidence of the best candidate for each required field, 0 when missing
+  confidence: number;
+  warnings: number;
+  score: number;
+}
+
+export const AUTO_BEST = {
+  // A pass this good, complete and without warnings ends the search early
+  passScore: 0.85,
+  warningPenalty: 0.1,
+};
+
+export function scorePass(matches: FieldMatches, warnings: ScanWarning[], template: DocumentTemplate): PassScore {
+  const required = template.fields.filter(field => field.required);
+  const fields = required.length > 0 ? required : template.fields;
+  const best = fields.map(field => matches[field.key]?.[0]);
+  const completeness = fields.length > 0 ? best.filter(Boolean).length / fields.length : 0;
+  const confidence = fields.length > 0 ? best.reduce((sum, match) => sum + (match?.confidence ?? 0), 0) / fields.length : 0;
+  const score = Math.max(0, (completeness + confidence) / 2 - warnings.length * AUTO_BEST.warningPenalty);
+  return { completeness, confidence, warnings: warnings.length, score };
+}
+
+export function passesValidation(pass: PassScore): boolean {
+  return pass.completeness === 1 && pass.warnings === 0 && pass.score >= AUTO_BEST.passScore;
+}
+
+// The winner's candidates, best first as validated, then every other pass's candidates for review.
+// Each is tagged with the scan mode that read it; only the winner's fields are kept.
+export function withOtherPasses(winner: { mode: string; matches: FieldMatches }, others: Array<{ mode: string; matches: FieldMatches }>): FieldMatches {
+  return Object.fromEntries(Object.entries(winner.matches).map(([key, fieldMatches]) => [key, [
+    ...fieldMatches.map(match => ({ ...match, pass: winner.mode })),
+    ...others.flatMap(other => (other.matches[key] ?? []).map(match => ({ ...match, pass: other.mode }))),
+  ]]));
+}
+
+// The candidates read by one pass, plus any untagged ones from a single-pass read. Field values
+// and trace winners come from the winning pass only, the others are there to review.
+export function fromPass(matches: FieldMatches, mode: string): FieldMatches {
+  return Object.fromEntries(Object.entries(matches).map(([key, fieldMatches]) => [key, fieldMatches.filter(match => !match.pass || match.pass === mode)]));
+}
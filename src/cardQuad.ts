@@ -0,0 +1,99 @@
+// Geometry of a card found in a photo: its four corners and the size to warp it to
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Corners in order: top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+// ID-1 card, 85.6 x 53.98 mm - the licence and most ID cards
+export const CARD_ASPECT = 85.6 / 53.98;
+
+export interface CardShapeOptions {
+  // Smallest share of the image the card may cover
+  minArea?: number;
+  // How far width / height may be from CARD_ASPECT, as a share of it
+  aspectTolerance?: number;
+}
+
+// Order corners clockwise from the top-left: it has the smallest x + y, the bottom-right the
+// largest, the top-right the largest x - y and the bottom-left the smallest
+export function orderCorners(points: Point[]): Quad {
+  const by = (score: (p: Point) => number) => points.reduce((best, p) => (score(p) > score(best) ? p : best));
+  return [
+    by(p => -(p.x + p.y)),
+    by(p => p.x - p.y),
+    by(p => p.x + p.y),
+    by(p => p.y - p.x),
+  ];
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+// Width and height as the average of opposite edges
+export function quadSize([tl, tr, br, bl]: Quad): { width: number; height: number } {
+  return {
+    width: (distance(tl, tr) + distance(bl, br)) / 2,
+    height: (distance(tl, bl) + distance(tr, br)) / 2,
+  };
+}
+
+// Shoelace formula
+export function quadArea(quad: Quad): number {
+  return Math.abs(quad.reduce((sum, p, i) => {
+    const next = quad[(i + 1) % quad.length];
+    return sum + p.x * next.y - next.x * p.y;
+  }, 0)) / 2;
+}
+
+// A card held upright is warped lying down, so the long edges become top and bottom
+export function landscapeQuad(quad: Quad): Quad {
+  const { width, height } = quadSize(quad);
+  return height > width ? [quad[3], quad[0], quad[1], quad[2]] : quad;
+}
+
+// Big enough and close enough to the card's proportions to be the card, not a label or the table
+export function isCardShaped(quad: Quad, imageArea: number, { minArea = 0.1, aspectTolerance = 0.35 }: CardShapeOptions = {}): boolean {
+  const { width, height } = quadSize(quad);
+  if (height === 0 || quadArea(quad) < imageArea * minArea) return false;
+  const aspect = Math.max(width, height) / Math.min(width, height);
+  return Math.abs(aspect - CARD_ASPECT) <= CARD_ASPECT * aspectTolerance;
+}
+
+// Output size of the warped card for a given width
+export function cardSize(width: number): { width: number; height: number } {
+  return { width, height: Math.round(width / CARD_ASPECT) };
+}
+
+// How well a card is framed for a photo, shown live over the camera view
+export type CardFraming = 'none' | 'too-far' | 'too-skewed' | 'good';
+
+export const FRAMING = {
+  // Share of the frame a card must cover to be read well
+  minArea: 0.25,
+  // Degrees any corner may be off square before the card is too tilted to read well
+  maxCornerSkew: 12,
+};
+
+// Interior angle at each corner, in degrees
+export function cornerAngles(quad: Quad): number[] {
+  return quad.map((corner, i) => {
+    const prev = quad[(i + quad.length - 1) % quad.length];
+    const next = quad[(i + 1) % quad.length];
+    const a = Math.atan2(prev.y - corner.y, prev.x - corner.x);
+    const b = Math.atan2(next.y - corner.y, next.x - corner.x);
+    const angle = Math.abs(a - b) * 180 / Math.PI;
+    return angle > 180 ? 360 - angle : angle;
+  });
+}
+
+export function cardFraming(quad: Quad | null, imageArea: number): CardFraming {
+  if (!quad) return 'none';
+  if (quadArea(quad) < imageArea * FRAMING.minArea) return 'too-far';
+  if (cornerAngles(quad).some(angle => Math.abs(angle - 90) > FRAMING.maxCornerSkew)) return 'too-skewed';
+  return 'good';
+}
@@ -0,0 +1,72 @@
+import { FieldMatch, FieldMatches, OcrWord, calculatePositionConfidence } from './extractFields';
+import type { DocumentTemplate } from './templates';
+import { fixDigitConfusions } from './dates';
+
+// A field whose best candidate scores below this is flagged as hard to read
+export const LOW_CONFIDENCE = 0.6;
+
+// How far OCR and line position can pull a rule's prior down: unreadable text halves it,
+// a value far from its usual line loses a fifth
+const OCR_FLOOR = 0.5;
+const POSITION_FLOOR = 0.8;
+
+// Compare OCR text loosely: digit confusions, case and punctuation don't matter
+function fold(text: string): string {
+  return fixDigitConfusions(text).text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function groupByLine(words: OcrWord[]): Map<number, OcrWord[]> {
+  const byLine = new Map<number, OcrWord[]>();
+  words.forEach(word => byLine.set(word.line, [...(byLine.get(word.line) ?? []), word]));
+  return byLine;
+}
+
+// The OCR words of a text line. Lines are matched by text, falling back to the same index.
+function wordsOfLine(byLine: Map<number, OcrWord[]>, text: string | undefined, index: number): OcrWord[] {
+  if (text === undefined) return [];
+  const target = fold(text);
+  const sameIndex = byLine.get(index) ?? [];
+  if (fold(sameIndex.map(w => w.text).join('')) === target) return sameIndex;
+  const sameText = Array.from(byLine.values()).find(lineWords => fold(lineWords.map(w => w.text).join('')) === target);
+  return sameText ?? sameIndex;
+}
+
+function isInside(word: OcrWord, match: FieldMatch): boolean {
+  if (!match.bbox) return false;
+  const x = (word.bbox.x0 + word.bbox.x1) / 2;
+  const y = (word.bbox.y0 + word.bbox.y1) / 2;
+  return x >= match.bbox.x0 && x <= match.bbox.x1 && y >= match.bbox.y0 && y <= match.bbox.y1;
+}
+
+// Mean confidence (0-1) of the words a candidate was read from, null when they can't be found
+export function ocrConfidence(match: FieldMatch, words: OcrWord[], lines: string[]): number | null {
+  const value = fold(match.value);
+  const source = match.bbox
+    ? words.filter(word => isInside(word, match))
+    : wordsOfLine(groupByLine(words), lines[match.line], match.line).filter(word => {
+      const text = fold(word.text);
+      return text === value || (text.length >= 2 && value.includes(text));
+    });
+  if (source.length === 0) return null;
+  return source.reduce((sum, word) => sum + word.confidence, 0) / source.length / 100;
+}
+
+// Combine each rule's prior with how readable its words were and, for unlabeled candidates,
+// how close they sit to the line the template expects. Returns copies, best first.
+export function scoreMatches(matches: FieldMatches, template: DocumentTemplate, words: OcrWord[], lines: string[]): FieldMatches {
+  return Object.fromEntries(Object.entries(matches).map(([key, fieldMatches]) => {
+    const expectedLine = template.fields.find(field => field.key === key)?.line;
+    const scored = fieldMatches.map(match => {
+      const ocr = ocrConfidence(match, words, lines);
+      const position = expectedLine !== undefined && !match.label
+        ? calculatePositionConfidence(match.position ?? match.line, expectedLine)
+        : 1;
+      const confidence = match.confidence
+        * (ocr === null ? 1 : OCR_FLOOR + (1 - OCR_FLOOR) * ocr)
+        * (POSITION_FLOOR + (1 - POSITION_FLOOR) * position);
+      return { ...match, confidence, ...(ocr === null ? {} : { ocrConfidence: ocr }) };
+    });
+    scored.sort((a, b) => b.confidence - a.confidence);
+    return [key, scored];
+  }));
+}
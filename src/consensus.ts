@@ -0,0 +1,43 @@
+import type { FieldMatch, FieldMatches } from './extractFields';
+
+// Case and spacing differences between frames shouldn't split the vote,
+// but the same name in two places of a list is two people
+function voteKey(match: FieldMatch): string {
+  return `${match.item ?? 0}:${match.value.toUpperCase().replace(/\s+/g, ' ').trim()}`;
+}
+
+// Add one capture's candidates to the pool, tagged with the frame they came from
+export function poolFrame(pool: FieldMatches, frame: FieldMatches, frameIndex: number): FieldMatches {
+  const pooled: FieldMatches = { ...pool };
+  Object.entries(frame).forEach(([key, fieldMatches]) => {
+    pooled[key] = [...(pooled[key] ?? []), ...fieldMatches.map(m => ({ ...m, frame: frameIndex }))];
+  });
+  return pooled;
+}
+
+// Vote the pooled candidates down to one ranked list per field. Each frame backs a value once,
+// with its best confidence for it, and the total is shared across the frames that read the field
+// at all - so a value seen in every frame beats a slightly more confident one seen in only one.
+export function voteMatches(pool: FieldMatches): FieldMatches {
+  return Object.fromEntries(Object.entries(pool).map(([key, fieldMatches]) => {
+    const frameCount = new Set(fieldMatches.map(m => m.frame ?? 0)).size;
+    const groups = new Map<string, FieldMatch[]>();
+    fieldMatches.forEach(m => {
+      const group = groups.get(voteKey(m)) ?? [];
+      groups.set(voteKey(m), [...group, m]);
+    });
+
+    const voted = Array.from(groups.values()).map(group => {
+      const bestPerFrame = new Map<number, number>();
+      group.forEach(m => {
+        const frame = m.frame ?? 0;
+        bestPerFrame.set(frame, Math.max(bestPerFrame.get(frame) ?? 0, m.confidence));
+      });
+      const total = Array.from(bestPerFrame.values()).reduce((sum, confidence) => sum + confidence, 0);
+      const representative = group.reduce((best, m) => (m.confidence > best.confidence ? m : best));
+      return { ...representative, confidence: total / frameCount, frames: bestPerFrame.size };
+    });
+    voted.sort((a, b) => b.confidence - a.confidence || b.frames - a.frames);
+    return [key, voted];
+  }));
+}
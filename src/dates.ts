@@ -0,0 +1,154 @@
+import { LOCALE } from './env';
+
+// How a two-digit year is expanded: birth dates are in the past, issue/expiry dates are recent
+export type DateKind = 'birth' | 'issue';
+
+export interface ParsedDate {
+  // Canonical DD/MM/YYYY
+  value: string;
+  date: Date;
+  raw: string;
+  // True when the century could honestly be read either way
+  ambiguous: boolean;
+  corrections: string[];
+}
+
+export interface FoundDate extends ParsedDate {
+  start: number;
+  end: number;
+}
+
+type DateOrder = 'DMY' | 'MDY' | 'YMD';
+
+// Characters Tesseract reads in place of digits inside dates
+const DIGIT_CONFUSIONS: Record<string, string> = {
+  O: '0', o: '0', D: '0', Q: '0',
+  l: '1', I: '1', i: '1', '|': '1', '!': '1',
+  S: '5', s: '5',
+  B: '8',
+  Z: '2', z: '2',
+};
+
+const DATE_CHAR = `[0-9${Object.keys(DIGIT_CONFUSIONS).join('').replace('|', '\\|').replace('!', '\\!')}]`;
+
+// A date token as OCR may produce it, e.g. "O1/l0/2O24"
+export const OCR_DATE_PATTERN = new RegExp(
+  `(?<![0-9A-Za-z])(?:${DATE_CHAR}{4}[\\/\\-.]${DATE_CHAR}{1,2}[\\/\\-.]${DATE_CHAR}{1,2}|${DATE_CHAR}{1,2}[\\/\\-.]${DATE_CHAR}{1,2}[\\/\\-.]${DATE_CHAR}{2,4})(?![0-9A-Za-z])`
+);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const orderCache = new Map<string, DateOrder>();
+
+export function dateOrder(locale: string = LOCALE): DateOrder {
+  const cached = orderCache.get(locale);
+  if (cached) return cached;
+  const parts = new Intl.DateTimeFormat(locale, { day: 'numeric', month: 'numeric', year: 'numeric' })
+    .formatToParts(new Date(2001, 1, 3))
+    .map(part => part.type)
+    .filter(type => type === 'day' || type === 'month' || type === 'year');
+  const order = parts.join(',') === 'month,day,year' ? 'MDY' : parts[0] === 'year' ? 'YMD' : 'DMY';
+  orderCache.set(locale, order);
+  return order;
+}
+
+export function fixDigitConfusions(raw: string): { text: string; corrections: string[] } {
+  const corrections: string[] = [];
+  const text = raw.replace(/[^0-9\/\-.]/g, char => {
+    const digit = DIGIT_CONFUSIONS[char];
+    if (!digit) return char;
+    corrections.push(`${char}→${digit}`);
+    return digit;
+  });
+  return { text, corrections };
+}
+
+function isRealDate(year: number, month: number, day: number): boolean {
+  if (month < 1 || month > 12 || day < 1) return false;
+  return day <= new Date(year, month, 0).getDate();
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
+
+// Expand a two-digit year. Birth dates must be in the past; other dates are taken to be
+// within the last 90 or next 10 years. Returns every plausible year, best first.
+function expandYear(year: string, kind: DateKind, now: Date): number[] {
+  if (year.length === 4) return [Number(year)];
+  const short = Number(year);
+  const thisYear = now.getFullYear();
+  const candidates = [2000 + short, 1900 + short];
+  if (kind === 'birth') {
+    return candidates.filter(full => full <= thisYear && thisYear - full <= 100);
+  }
+  return candidates.filter(full => full <= thisYear + 10 && full > thisYear - 90);
+}
+
+// Parse a date as OCR'd from a card: fixes digit confusions, reads day/month in the
+// order LOCALE uses and expands two-digit years by what kind of date it is
+export function parseOcrDate(raw: string, kind: DateKind = 'issue', options: { locale?: string; now?: Date } = {}): ParsedDate | null {
+  const now = options.now ?? new Date();
+  const { text, corrections } = fixDigitConfusions(raw.trim());
+  const parts = text.split(/[\/\-.]/);
+  if (parts.length !== 3 || parts.some(part => !/^\d+$/.test(part))) return null;
+
+  const order: DateOrder = parts[0].length === 4 ? 'YMD' : dateOrder(options.locale);
+  const [first, second, third] = parts;
+  const [dayText, monthText, yearText] =
+    order === 'YMD' ? [third, second, first] :
+    order === 'MDY' ? [second, first, third] :
+    [first, second, third];
+  if (yearText.length !== 2 && yearText.length !== 4) return null;
+
+  let day = Number(dayText);
+  let month = Number(monthText);
+
+  // Day and month only swap when the locale order can't be right
+  if (month > 12 && day <= 12 && order !== 'YMD') {
+    [day, month] = [month, day];
+    corrections.push('day↔month');
+  }
+
+  const years = expandYear(yearText, kind, now).filter(year => isRealDate(year, month, day));
+  if (years.length === 0) return null;
+  // Both centuries fit, e.g. a birth year of '26' could be 1926 or 2026
+  const ambiguous = years.length > 1;
+  const year = years[0];
+
+  return {
+    value: `${pad(day)}/${pad(month)}/${year}`,
+    date: new Date(year, month - 1, day),
+    raw,
+    ambiguous,
+    corrections,
+  };
+}
+
+// Every date in a line, left to right
+export function findDates(line: string, kind: DateKind = 'issue', options: { locale?: string; now?: Date } = {}): FoundDate[] {
+  const found: FoundDate[] = [];
+  const pattern = new RegExp(OCR_DATE_PATTERN.source, 'g');
+  for (const match of line.matchAll(pattern)) {
+    // Needs real digits, or every short run of letters would be a date
+    if (match[0].replace(/[^0-9]/g, '').length < match[0].replace(/[\/\-.]/g, '').length / 2) continue;
+    const parsed = parseOcrDate(match[0], kind, options);
+    if (parsed) {
+      const start = match.index ?? 0;
+      found.push({ ...parsed, start, end: start + match[0].length });
+    }
+  }
+  return found;
+}
+
+// Parse a canonical DD/MM/YYYY value back to a Date
+export function toDate(value: string | undefined): Date | null {
+  const parts = value?.trim().match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  if (!parts) return null;
+  const [day, month, year] = [Number(parts[1]), Number(parts[2]), Number(parts[3])];
+  return isRealDate(year, month, day) ? new Date(year, month - 1, day) : null;
+}
+
+export function yearsBetween(from: Date, to: Date): number {
+  return (to.getTime() - from.getTime()) / (DAY_MS * 365.25);
+}
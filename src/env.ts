@@ -1,3 +1,10 @@
 // This is a simple environment configuration for the browser
 // We'll use this instead of process.env.NODE_ENV
-export const NODE_ENV = 'development'; 
\ No newline at end of file
+export const NODE_ENV = 'development'; 
+
+export const LOCALE = 'en-NZ';
+
+// URL of the built bundle, which the workers are loaded relative to. The build replaces
+// __BUNDLE_URL__ with import.meta.url; unbuilt, e.g. under jest, there is none.
+declare const __BUNDLE_URL__: string | undefined;
+export const BUNDLE_URL: string | undefined = typeof __BUNDLE_URL__ === 'string' ? __BUNDLE_URL__ : undefined;
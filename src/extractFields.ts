@@ -0,0 +1,579 @@
+import type { DocumentTemplate, TemplateField } from './templates';
+import { LabelMatch, LabelSpec, findLineLabel, isLabelOnly, labelPattern, scanLabels } from './fuzzyLabel';
+import { FoundDate, OCR_DATE_PATTERN, ParsedDate, findDates, parseOcrDate, yearsBetween } from './dates';
+import { ExtractionTrace, createTrace, finishTrace, reject } from './trace';
+import { IdFormat, ParsedId, findIds, validateId } from './idFormat';
+import { normalizeName } from './names';
+import { PostalAddress, findAddress, formatAddress, mergeAddress, parseAddress } from './address';
+
+export interface Bbox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+// Lean copy of a Tesseract word - the full result is circular and too big to keep on a scan
+export interface OcrWord {
+  text: string;
+  confidence: number;
+  bbox: Bbox;
+  line: number;
+}
+
+export interface FieldMatch {
+  value: string;
+  confidence: number;
+  line: number;
+  pattern: string;
+  position?: number;
+  // Where the value was found on the image, only set by the layout extractor
+  bbox?: Bbox;
+  // The printed label the value was read from, distance > 0 when it was fuzzy matched
+  label?: { alias: string; text: string; distance: number };
+  // Set when the value could honestly be read more than one way, e.g. a birth year of '26'
+  ambiguous?: boolean;
+  // OCR fixes applied to the raw text, e.g. 'O→0'
+  corrections?: string[];
+  // The capture a pooled candidate came from, and how many captures agree on the value, see consensus
+  frame?: number;
+  frames?: number;
+  // Position in a list field, e.g. 1 for the second dependant
+  item?: number;
+  // Mean Tesseract confidence (0-1) of the words the value was read from, see scoreMatches
+  ocrConfidence?: number;
+  // Scan mode that read it, in auto-best mode where several are tried
+  pass?: string;
+}
+
+// One entry of a list field (e.g. one dependant) with every candidate read for it, best first
+export interface ListItem {
+  value: string;
+  confidence: number;
+  matches: FieldMatch[];
+}
+
+// Keyed by the template's field keys
+export type FieldMatches = Record<string, FieldMatch[]>;
+
+export type ExtractResult = { success: boolean; matches: FieldMatches; trace?: ExtractionTrace };
+
+export interface ExtractOptions {
+  // Record which rules fired or were rejected on each line, see trace
+  trace?: boolean;
+}
+
+// Printed labels on the family season licence, shared with its template
+export const LICENCE_LABEL_ALIASES: Record<string, string[]> = {
+  name: ['NAME'],
+  dor: ['DOR'],
+  issue: ['ISSUE', 'ISSUED'],
+  valid: ['VALID'],
+  spousePartner: ['SPOUSE/PARTNER'],
+  address: ['ADDRESS'],
+  other: ['OTHER'],
+};
+
+// Card header text, and fragments of it seen on real scans, that are never a dependant
+const LICENCE_NOISE = /^(Licence|FAMILY SEASON LICENCE|cance|Comin|ets)\b/i;
+const DEPENDANT_PATTERN = /^[A-Za-z][A-Za-z\s\d,.'-]*[A-Za-z\d]$/;
+
+// Family licence numbers are 6-8 digits
+export const LICENCE_ID_FORMAT: IdFormat = { minLength: 6, maxLength: 8 };
+
+const LICENCE_LABELS: LabelSpec[] = Object.entries(LICENCE_LABEL_ALIASES).map(([key, aliases]) => ({ key, aliases }));
+
+// The non-empty OCR lines the text extractors work on; FieldMatch.line indexes into these
+export function textLines(text: string): string[] {
+  return text.split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+export function toMatchLabel(label: LabelMatch): FieldMatch['label'] {
+  return { alias: label.alias, text: label.text, distance: label.distance };
+}
+
+export function emptyMatches(template: DocumentTemplate): FieldMatches {
+  return Object.fromEntries(template.fields.map(field => [field.key, []]));
+}
+
+// Combine candidates from several extractors, best first
+export function mergeMatches(...sources: FieldMatches[]): FieldMatches {
+  const merged: FieldMatches = {};
+  sources.forEach(source => {
+    Object.entries(source).forEach(([key, fieldMatches]) => {
+      merged[key] = [...(merged[key] ?? []), ...fieldMatches];
+    });
+  });
+  Object.values(merged).forEach(fieldMatches => fieldMatches.sort((a, b) => b.confidence - a.confidence));
+  return merged;
+}
+
+// The value and how it was read, for spreading into a FieldMatch
+export function dateMatchValue(...dates: ParsedDate[]): Pick<FieldMatch, 'value' | 'ambiguous' | 'corrections'> {
+  const corrections = dates.flatMap(date => date.corrections);
+  return {
+    value: dates.map(date => date.value).join(' - '),
+    ...(dates.some(date => date.ambiguous) ? { ambiguous: true } : {}),
+    ...(corrections.length > 0 ? { corrections } : {}),
+  };
+}
+
+export function idMatchValue(id: ParsedId): Pick<FieldMatch, 'value' | 'corrections'> {
+  return { value: id.value, ...(id.corrections.length > 0 ? { corrections: id.corrections } : {}) };
+}
+
+// The DOR is a birth date, which changes how a two-digit year is read
+function asBirthDate(date: FoundDate): ParsedDate {
+  return parseOcrDate(date.raw, 'birth') ?? date;
+}
+
+function oldestFirst(dates: FoundDate[]): FoundDate[] {
+  return [...dates].sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+// Group a list field's candidates into items, in card order
+export function listItems(fieldMatches: FieldMatch[]): ListItem[] {
+  const byItem = new Map<number, FieldMatch[]>();
+  fieldMatches.forEach(m => byItem.set(m.item ?? 0, [...(byItem.get(m.item ?? 0) ?? []), m]));
+  return Array.from(byItem.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, itemMatches]) => {
+      const sorted = [...itemMatches].sort((a, b) => b.confidence - a.confidence);
+      return { value: sorted[0].value, confidence: sorted[0].confidence, matches: sorted };
+    });
+}
+
+export function calculatePositionConfidence(position: number, expectedPosition: number): number {
+  const distance = Math.abs(position - expectedPosition);
+  return Math.max(0, 1 - (distance * 0.1)); // Decrease confidence by 0.1 for each position away
+}
+
+// Family season licence extractor - hand tuned to the layout of the printed card
+export function extractFieldsV2(text: string, template?: DocumentTemplate, options: ExtractOptions = {}): ExtractResult {
+  const lines = textLines(text);
+  const trace = options.trace ? createTrace(lines) : undefined;
+  const labels: LabelSpec[] = template ? template.fields : LICENCE_LABELS;
+  const matches: FieldMatches = {
+    id: [],
+    name: [],
+    dor: [],
+    issue: [],
+    valid: [],
+    spousePartner: [],
+    address: [],
+    other: []
+  };
+
+  const addressLines: Array<{ line: number; address: PostalAddress; label?: LabelMatch }> = [];
+  const isLabelLine = (text: string) => isLabelOnly(text, labels) || /^Licence\s*$/i.test(text);
+  const idFormat = template?.fields.find(field => field.key === 'id')?.idFormat ?? LICENCE_ID_FORMAT;
+
+  // First pass: Find all potential matches
+  lines.forEach((line, lineNum) => {
+    // Handle ID - an ID that needed OCR corrections to validate is less certain
+    const [idMatch] = findIds(line, idFormat);
+    if (idMatch) {
+      matches.id.push({
+        ...idMatchValue(idMatch),
+        confidence: idMatch.corrections.length > 0 ? 0.9 : 1.0,
+        line: lineNum,
+        pattern: 'id-pattern',
+        position: lineNum
+      });
+    }
+
+    const lineLabels = scanLabels(line, labels);
+    const label = lineLabels[0]?.start === 0
+      ? { ...lineLabels[0], rest: line.slice(lineLabels[0].end).replace(/^[\s:]+/, '').trim() }
+      : null;
+
+    // Handle Name
+    const labeledName = label?.key === 'name' ? label.rest.match(/^([A-Za-z .-]+)$/) : null;
+    // Unlabeled, the name is the text before an ID that ends the line
+    const nameBeforeId = idMatch?.end === line.length ? line.slice(0, idMatch.start).match(/^([A-Za-z .-]+)\s+$/) : null;
+    const nameMatch = labeledName || nameBeforeId;
+    if (nameMatch && isLabelLine(line)) {
+      reject(trace, lineNum, 'name-pattern', 'line is a label');
+    } else if (nameMatch) {
+      matches.name.push({
+        value: normalizeName(nameMatch[1] ?? nameMatch[0]).full,
+        confidence: labeledName ? 1.0 : 0.9,
+        line: lineNum,
+        pattern: labeledName && label ? labelPattern('name-pattern', label) : 'name-pattern',
+        position: lineNum,
+        ...(labeledName && label ? { label: toMatchLabel(label) } : {})
+      });
+    }
+
+    // Check for name on next line after NAME label
+    if (label?.key === 'name' && label.rest === '' && lineNum + 1 < lines.length) {
+      const nextLine = lines[lineNum + 1];
+      const nameOnNextLine = nextLine.match(/^([A-Za-z .-]+)(?:\s+\d{6,8})?$/);
+      if (!nameOnNextLine) {
+        reject(trace, lineNum, 'name-next-line', `next line "${nextLine}" doesn't look like a name`);
+      } else if (isLabelLine(nextLine)) {
+        reject(trace, lineNum, 'name-next-line', `next line "${nextLine}" is a label`);
+      } else {
+        matches.name.push({
+          value: normalizeName(nameOnNextLine[1]).full,
+          confidence: 0.95,
+          line: lineNum + 1,
+          pattern: labelPattern('name-next-line', label),
+          position: lineNum + 1,
+          label: toMatchLabel(label)
+        });
+      }
+    }
+
+    // Handle address - lines with an ID or date are never one, their numbers look like postcodes
+    const address = idMatch || findDates(line).length > 0 ? null : findAddress(label ? label.rest : line);
+    if (address) addressLines.push({ line: lineNum, address: address.address, label: label?.key === 'address' ? label : undefined });
+
+    // Handle Spouse/Partner - on the card the spouse is printed before the address on the same line,
+    // e.g. "Becky Talbot-Van Beers Rd 21, Geraldine 7991", but a line that starts with the address
+    // (e.g. "165 Keen Road" after the label) has no spouse on it
+    const labeledSpouse = label?.key === 'spousePartner' ? label.rest.match(/^([A-Za-z .-]+)$/) : null;
+    const nameBeforeAddress = address && address.start > 0
+      ? (label ? label.rest : line).slice(0, address.start).match(/^([A-Za-z.-]+(?:\s+[A-Za-z.-]+)+)\s*$/)
+      : null;
+    const spouseMatch = labeledSpouse || (label?.key === 'address' ? null : nameBeforeAddress);
+    if (spouseMatch) {
+      matches.spousePartner.push({
+        value: normalizeName(spouseMatch[1] ?? spouseMatch[0]).full,
+        confidence: labeledSpouse ? 1.0 : 0.8,
+        line: lineNum,
+        pattern: labeledSpouse && label ? labelPattern('spouse-pattern', label) : 'spouse-pattern',
+        position: lineNum,
+        ...(labeledSpouse && label ? { label: toMatchLabel(label) } : {})
+      });
+    }
+
+    // Handle labeled dates first - the date is the first one after its label
+    lineLabels
+      .filter(dateLabel => dateLabel.key === 'dor' || dateLabel.key === 'issue' || dateLabel.key === 'valid')
+      .forEach(dateLabel => {
+        const [date] = findDates(line.slice(dateLabel.end), dateLabel.key === 'dor' ? 'birth' : 'issue');
+        if (date) {
+          matches[dateLabel.key].push({
+            ...dateMatchValue(date),
+            confidence: 1.0,
+            line: lineNum,
+            pattern: labelPattern(`${dateLabel.key}-labeled`, dateLabel),
+            position: lineNum,
+            label: toMatchLabel(dateLabel)
+          });
+        } else {
+          reject(trace, lineNum, `${dateLabel.key}-labeled`, `no date after ${dateLabel.text}`);
+        }
+      });
+
+    // Handle unlabeled dates
+    const dates = findDates(line);
+    if (dates.length > 0) {
+      // First check for a range pattern
+      const rangeStart = dates.findIndex((date, i) => i + 1 < dates.length && /^\s*[-–]\s*$/.test(line.slice(date.end, dates[i + 1].start)));
+      let validValue = '';
+
+      if (rangeStart >= 0) {
+        const range = dateMatchValue(dates[rangeStart], dates[rangeStart + 1]);
+        validValue = range.value;
+        matches.valid.push({
+          ...range,
+          confidence: 0.95,
+          line: lineNum,
+          pattern: 'valid-range',
+          position: lineNum
+        });
+        // Remove the range dates from the array
+        const remainingDates = dates.filter((_, i) => i !== rangeStart && i !== rangeStart + 1);
+
+        // If we have exactly 2 remaining dates, they are likely DOR and ISSUE
+        if (remainingDates.length === 2) {
+          const sortedDates = oldestFirst(remainingDates);
+
+          matches.dor.push({
+            ...dateMatchValue(asBirthDate(sortedDates[0])),
+            confidence: 0.9,
+            line: lineNum,
+            pattern: 'dor-with-range',
+            position: lineNum
+          });
+
+          matches.issue.push({
+            ...dateMatchValue(sortedDates[1]),
+            confidence: 0.85,
+            line: lineNum,
+            pattern: 'issue-with-range',
+            position: lineNum
+          });
+        } else if (remainingDates.length > 0) {
+          reject(trace, lineNum, 'dor-with-range', `${remainingDates.length} date(s) besides the range, expected 2`);
+        }
+      } else if (dates.length === 3) {
+        // If no range pattern but we have 3 dates, handle as before
+        const sortedDates = oldestFirst(dates);
+
+        matches.dor.push({
+          ...dateMatchValue(asBirthDate(sortedDates[0])),
+          confidence: 0.9,
+          line: lineNum,
+          pattern: 'dor-position-oldest',
+          position: lineNum
+        });
+
+        matches.issue.push({
+          ...dateMatchValue(sortedDates[1]),
+          confidence: 0.85,
+          line: lineNum,
+          pattern: 'issue-position-middle',
+          position: lineNum
+        });
+
+        if (!validValue) {
+          matches.valid.push({
+            ...dateMatchValue(sortedDates[2]),
+            confidence: 0.8,
+            line: lineNum,
+            pattern: 'valid-position-newest',
+            position: lineNum
+          });
+        }
+      } else if (dates.length === 1) {
+        // Single unlabeled date - check if it's near name or ID
+        const date = asBirthDate(dates[0]);
+        const yearsDiff = yearsBetween(date.date, new Date());
+
+        if (yearsDiff > 18 && yearsDiff < 100) {
+          // Likely a DOR if it's a reasonable age
+          matches.dor.push({
+            ...dateMatchValue(date),
+            confidence: 0.8,
+            line: lineNum,
+            pattern: 'dor-age-range',
+            position: lineNum
+          });
+        } else {
+          reject(trace, lineNum, 'dor-age-range', `${date.value} is ${Math.floor(yearsDiff)} years ago, not a plausible age`);
+        }
+      } else {
+        reject(trace, lineNum, 'dor-position-oldest', `${dates.length} dates and no range, can't tell them apart`);
+      }
+    }
+  });
+
+  // An address printed over consecutive lines is one address, e.g. the street then "RD 21, Geraldine 7991".
+  // A line whose parts are already filled starts the next address.
+  const addresses: Array<{ line: number; lastLine: number; address: PostalAddress; label?: LabelMatch }> = [];
+  addressLines.forEach(current => {
+    const last = addresses[addresses.length - 1];
+    const overlaps = last && (Object.keys(current.address) as Array<keyof PostalAddress>)
+      .some(part => current.address[part] && last.address[part]);
+    if (last && current.line === last.lastLine + 1 && !overlaps) {
+      last.address = mergeAddress(last.address, current.address);
+      last.lastLine = current.line;
+      last.label = last.label ?? current.label;
+    } else {
+      addresses.push({ ...current, lastLine: current.line });
+    }
+  });
+  addresses.forEach(({ line, address, label }) => {
+    const complete = (address.street || address.ruralDelivery) && address.town && address.postcode;
+    matches.address.push({
+      value: formatAddress(address),
+      confidence: label ? 1.0 : complete ? 0.85 : 0.7,
+      line,
+      pattern: label ? labelPattern('address-pattern', label) : 'address-pattern',
+      position: line,
+      ...(label ? { label: toMatchLabel(label) } : {})
+    });
+  });
+
+  // Second pass: dependants, one item per person. They are listed under the OTHER label or,
+  // on cards without one, are the name lines that follow the spouse/partner.
+  const knownNames = new Set([...matches.name, ...matches.spousePartner].map(m => m.value));
+  const dependantRejection = (text: string): string | null =>
+    !DEPENDANT_PATTERN.test(text) ? "doesn't look like a name" :
+    isLabelLine(text) ? 'is a label' :
+    LICENCE_NOISE.test(text) ? 'is card header text' :
+    knownNames.has(normalizeName(text).full) ? 'is the holder or spouse/partner' :
+    null;
+  const isDependant = (text: string, lineNum: number, rule: string) => {
+    const reason = dependantRejection(text);
+    if (reason) reject(trace, lineNum, rule, `"${text}" ${reason}`);
+    return !reason;
+  };
+  const addDependant = (value: string, lineNum: number, confidence: number, pattern: string, label?: LabelMatch) => {
+    matches.other.push({
+      value,
+      confidence,
+      line: lineNum,
+      pattern: label ? labelPattern(pattern, label) : pattern,
+      position: lineNum,
+      item: matches.other.length,
+      ...(label ? { label: toMatchLabel(label) } : {})
+    });
+  };
+
+  let foundSpousePartner = false;
+  let foundOtherSection = false;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const label = findLineLabel(line, labels);
+    if (label?.key === 'other') {
+      foundOtherSection = true;
+      if (label.rest && isDependant(label.rest, i, 'other-section')) addDependant(label.rest, i, 1.0, 'other-section', label);
+      // Every name line up to the next label or the card header
+      let j = i + 1;
+      while (j < lines.length && !isLabelLine(lines[j]) && !/^FAMILY SEASON LICENCE\s*$/i.test(lines[j])) {
+        if (isDependant(lines[j], j, 'other-section')) addDependant(lines[j], j, 1.0, 'other-section', label);
+        j++;
+      }
+      i = j - 1;
+    } else if (label?.key === 'spousePartner' || matches.spousePartner.some(m => m.line === i)) {
+      foundSpousePartner = true;
+    } else if (!foundOtherSection && foundSpousePartner) {
+      const reason = /\d{6,8}/.test(line) ? 'has an ID' :
+        findDates(line).length > 0 ? 'has a date' :
+        findAddress(line) ? 'looks like an address' :
+        null;
+      if (reason) {
+        reject(trace, i, 'other-implicit', `"${line}" ${reason}`);
+      } else if (isDependant(line, i, 'other-implicit')) {
+        addDependant(line, i, 0.8, 'other-implicit');
+      }
+    }
+  }
+
+  return { success: true, matches: matches, ...(trace ? { trace: finishTrace(trace, matches) } : {}) };
+}
+
+// Default value shape for each field type, used when a template field has no patterns of its own
+export const VALUE_PATTERNS: Record<TemplateField['type'], RegExp> = {
+  id: /[A-Za-z]{0,3}\d{4,10}/,
+  name: /[A-Za-z][A-Za-z .'-]*[A-Za-z]/,
+  date: OCR_DATE_PATTERN,
+  dateRange: new RegExp(`${OCR_DATE_PATTERN.source}(?:\\s*[-–]\\s*${OCR_DATE_PATTERN.source})?`),
+  text: /.+/,
+  address: /.+/,
+};
+
+export function normalizeValue(field: TemplateField, value: string): Pick<FieldMatch, 'value' | 'ambiguous' | 'corrections'> {
+  if (field.type === 'date' || field.type === 'dateRange') {
+    const dates = findDates(value, field.dateKind);
+    if (dates.length > 0) return dateMatchValue(...dates.slice(0, field.type === 'date' ? 1 : 2));
+  }
+  if (field.type === 'name') return { value: normalizeName(value).full };
+  if (field.type === 'address') return { value: formatAddress(parseAddress(value)) || value.trim() };
+  return { value: value.trim() };
+}
+
+// Read a field's value from some text: the first match of its type's value pattern or,
+// for fields with an ID format, the first token that validates. start/end locate it in the text.
+export function readValue(field: TemplateField, text: string): { match: Pick<FieldMatch, 'value' | 'ambiguous' | 'corrections'>; start: number; end: number } | null {
+  if (field.idFormat) {
+    const [id] = findIds(text, field.idFormat);
+    if (!id) return null;
+    return { match: idMatchValue(id), start: id.start, end: id.end };
+  }
+  const found = text.match(VALUE_PATTERNS[field.type]);
+  if (!found || found.index === undefined) return null;
+  const match = normalizeValue(field, found[0]);
+  return match.value ? { match, start: found.index, end: found.index + found[0].length } : null;
+}
+
+// Generic extractor driven only by a template's field declarations:
+// labeled values ("ALIAS value" or "ALIAS" followed by the value on the next line)
+// and unlabeled values matching one of the field's own patterns
+export function extractTemplateFields(text: string, template: DocumentTemplate, options: ExtractOptions = {}): ExtractResult {
+  const lines = textLines(text);
+  const matches = emptyMatches(template);
+  const trace = options.trace ? createTrace(lines) : undefined;
+
+  lines.forEach((line, lineNum) => {
+    const label = findLineLabel(line, template.fields);
+
+    template.fields.forEach(field => {
+      if (label && label.key === field.key && field.list) {
+        // One item per line, from the label up to the next label
+        const itemLines = [{ text: label.rest, line: lineNum, confidence: 1.0, pattern: `${field.key}-labeled` }];
+        for (let next = lineNum + 1; next < lines.length && !findLineLabel(lines[next], template.fields); next++) {
+          itemLines.push({ text: lines[next], line: next, confidence: 0.95, pattern: `${field.key}-next-line` });
+        }
+        itemLines.forEach(itemLine => {
+          const itemValue = readValue(field, itemLine.text);
+          if (!itemValue) {
+            if (itemLine.text) reject(trace, itemLine.line, itemLine.pattern, `"${itemLine.text}" isn't a valid ${field.type}`);
+            return;
+          }
+          matches[field.key].push({
+            ...itemValue.match,
+            confidence: itemLine.confidence,
+            line: itemLine.line,
+            pattern: labelPattern(itemLine.pattern, label),
+            position: itemLine.line,
+            item: matches[field.key].length,
+            label: toMatchLabel(label)
+          });
+        });
+      } else if (label && label.key === field.key) {
+        const labeledValue = readValue(field, label.rest);
+        if (labeledValue) {
+          matches[field.key].push({
+            ...labeledValue.match,
+            confidence: 1.0,
+            line: lineNum,
+            pattern: labelPattern(`${field.key}-labeled`, label),
+            position: lineNum,
+            label: toMatchLabel(label)
+          });
+        } else if (label.rest) {
+          reject(trace, lineNum, `${field.key}-labeled`, `"${label.rest}" isn't a valid ${field.type}`);
+        }
+
+        if (label.rest === '' && lineNum + 1 < lines.length) {
+          const nextLine = lines[lineNum + 1];
+          const nextValue = readValue(field, nextLine);
+          if (!nextValue) {
+            reject(trace, lineNum, `${field.key}-next-line`, `next line "${nextLine}" isn't a valid ${field.type}`);
+          } else if (isLabelOnly(nextLine, template.fields)) {
+            reject(trace, lineNum, `${field.key}-next-line`, `next line "${nextLine}" is a label`);
+          } else {
+            matches[field.key].push({
+              ...nextValue.match,
+              confidence: 0.95,
+              line: lineNum + 1,
+              pattern: labelPattern(`${field.key}-next-line`, label),
+              position: lineNum + 1,
+              label: toMatchLabel(label)
+            });
+          }
+        }
+      }
+
+      field.patterns.forEach(pattern => {
+        const unlabeled = line.match(pattern);
+        if (unlabeled) {
+          const raw = unlabeled[1] ?? unlabeled[0];
+          const id = field.idFormat ? validateId(raw, field.idFormat) : null;
+          if (field.idFormat && !id) {
+            reject(trace, lineNum, `${field.key}-pattern`, `"${raw}" isn't a valid id`);
+            return;
+          }
+          matches[field.key].push({
+            ...(id ? idMatchValue(id) : normalizeValue(field, raw)),
+            confidence: 0.8,
+            line: lineNum,
+            pattern: `${field.key}-pattern`,
+            position: lineNum
+          });
+        }
+      });
+    });
+  });
+
+  const success = template.fields
+    .filter(field => field.required)
+    .every(field => matches[field.key].length > 0);
+
+  return { success, matches, ...(trace ? { trace: finishTrace(trace, matches) } : {}) };
+}
@@ -0,0 +1,151 @@
+// Fuzzy matching of printed labels (NAME, DOR, SPOUSE/PARTNER...) against noisy OCR text,
+// e.g. "wae" for NAME or "srouserasmen" for SPOUSE/PARTNER
+
+export interface LabelSpec {
+  key: string;
+  aliases: string[];
+  // Max edits as a fraction of the alias length, in place of the default edit budget
+  labelTolerance?: number;
+}
+
+export interface LabelMatch {
+  key: string;
+  alias: string;
+  // The OCR text that matched the alias
+  text: string;
+  distance: number;
+  start: number;
+  end: number;
+}
+
+// Characters Tesseract commonly confuses in labels, folded to a single form before comparing
+const CONFUSIONS: Array<[RegExp, string]> = [
+  [/rn/g, 'm'],
+  [/vv/g, 'w'],
+  [/0/g, 'O'],
+  [/[1|!]/g, 'I'],
+  [/5/g, 'S'],
+  [/8/g, 'B'],
+  [/6/g, 'G'],
+];
+
+// Labels are printed in capitals, where a lowercase l can only be a misread I
+function inCapitals(text: string): boolean {
+  const letters = text.replace(/[^A-Za-z]/g, '').replace(/l/g, '');
+  return letters !== '' && letters === letters.toUpperCase();
+}
+
+export function foldLabel(text: string): string {
+  // In mixed case, e.g. "Valid", an l is an l unless it sits against a digit
+  const unconfused = inCapitals(text) ? text.replace(/l/g, 'I') : text.replace(/l(?=\d)|(?<=\d)l/g, 'I');
+  const folded = CONFUSIONS.reduce((value, [from, to]) => value.replace(from, to), unconfused);
+  return folded.toUpperCase().replace(/[^A-Z]/g, '');
+}
+
+// Edits an alias can be off by. Short aliases are one edit away from common names ("Don", "Dr"
+// for DOR, "Nami" for NAME) so have to match exactly, longer ones can be one edit off.
+function maxEdits(alias: string, tolerance?: number): number {
+  if (tolerance !== undefined) return Math.floor(alias.length * tolerance);
+  return alias.length <= 4 ? 0 : 1;
+}
+
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Dates, IDs and other mostly-numeric tokens are never labels
+function isWordLike(token: string): boolean {
+  const letters = token.replace(/[^A-Za-z]/g, '').length;
+  const digits = token.replace(/[^0-9]/g, '').length;
+  return letters > 0 && letters >= digits;
+}
+
+// Best alias for a piece of text, or null when nothing is close enough.
+// Besides the edit budget an inexact match has to be in capitals or start its line, and its
+// first or last letter has to agree, which keeps names like "Esther" from being read as OTHER.
+export function matchLabel(text: string, aliases: string[], tolerance?: number, atLineStart = false): { alias: string; distance: number } | null {
+  if (!isWordLike(text)) return null;
+  const folded = foldLabel(text);
+  const placed = inCapitals(text) || atLineStart;
+  let best: { alias: string; distance: number } | null = null;
+  aliases.forEach(alias => {
+    const target = foldLabel(alias);
+    if (!folded || !target) return;
+    const distance = editDistance(folded, target);
+    const edgesAgree = folded[0] === target[0] || folded[folded.length - 1] === target[target.length - 1];
+    if (distance > maxEdits(target, tolerance) || (distance > 0 && !(edgesAgree && placed))) return;
+    if (!best || distance < best.distance || (distance === best.distance && alias.length > best.alias.length)) {
+      best = { alias, distance };
+    }
+  });
+  return best;
+}
+
+// Find every label in a line, left to right. A label can span up to two more tokens than
+// its alias has words, since OCR often splits "SPOUSE/PARTNER" into "SPOUSE / PARTNER".
+export function scanLabels(line: string, labels: LabelSpec[]): LabelMatch[] {
+  const tokens = Array.from(line.matchAll(/\S+/g)).map(m => ({ text: m[0], start: m.index ?? 0, end: (m.index ?? 0) + m[0].length }));
+  const found: LabelMatch[] = [];
+
+  let i = 0;
+  while (i < tokens.length) {
+    let best: { match: LabelMatch; tokens: number } | null = null;
+    labels.forEach(label => {
+      label.aliases.forEach(alias => {
+        const aliasWords = alias.split(/\s+/).length;
+        for (let count = 1; count <= aliasWords + 2 && i + count <= tokens.length; count++) {
+          const span = tokens.slice(i, i + count);
+          const text = line.slice(span[0].start, span[count - 1].end);
+          const hit = matchLabel(text, [alias], label.labelTolerance, i === 0);
+          if (!hit) continue;
+          const better = !best
+            || hit.distance < best.match.distance
+            || (hit.distance === best.match.distance && alias.length > best.match.alias.length);
+          if (better) {
+            best = {
+              match: { key: label.key, alias, text, distance: hit.distance, start: span[0].start, end: span[count - 1].end },
+              tokens: count
+            };
+          }
+        }
+      });
+    });
+    if (best) {
+      const { match, tokens: used } = best;
+      found.push(match);
+      i += used;
+    } else {
+      i++;
+    }
+  }
+  return found;
+}
+
+// The label the line starts with, plus whatever follows it
+export function findLineLabel(line: string, labels: LabelSpec[]): (LabelMatch & { rest: string }) | null {
+  const first = scanLabels(line, labels)[0];
+  if (!first || first.start !== 0) return null;
+  return { ...first, rest: line.slice(first.end).replace(/^[\s:]+/, '').trim() };
+}
+
+export function isLabelOnly(line: string, labels: LabelSpec[]): boolean {
+  const label = findLineLabel(line.trim(), labels);
+  return !!label && label.rest === '';
+}
+
+// Record a fuzzy hit in the pattern name, e.g. "name-next-line(NAME~2)"
+export function labelPattern(pattern: string, label: { alias: string; distance: number }): string {
+  return label.distance === 0 ? pattern : `${pattern}(${label.alias}~${label.distance})`;
+}
@@ -0,0 +1,86 @@
+import { fixDigitConfusions } from './dates';
+
+// What a valid ID looks like for a template, e.g. the licence number on a family licence
+export interface IdFormat {
+  // Number of digits after the prefix
+  minLength: number;
+  maxLength: number;
+  // Letters the ID starts with, e.g. ['FG']; matched as printed, case-insensitively
+  prefixes?: string[];
+  // Validates the digits, e.g. luhn
+  checkDigit?: (digits: string) => boolean;
+}
+
+export interface ParsedId {
+  value: string;
+  // OCR fixes applied to reach a valid ID, e.g. 'O→0' or '7→1@3' for a digit changed to pass the check digit
+  corrections: string[];
+}
+
+export interface FoundId extends ParsedId {
+  start: number;
+  end: number;
+}
+
+// Digits Tesseract mixes up with each other, tried one at a time when a check digit fails
+const DIGIT_LOOKALIKES: Record<string, string[]> = {
+  '0': ['8'], '1': ['7'], '3': ['8'], '5': ['6'], '6': ['5', '8'], '7': ['1'], '8': ['0', '3', '6'],
+};
+
+export function luhn(digits: string): boolean {
+  let sum = 0;
+  digits.split('').reverse().forEach((char, index) => {
+    let digit = Number(char);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  });
+  return digits.length > 0 && sum % 10 === 0;
+}
+
+// Only a lookalike swap that is the single way to pass the check digit counts as a correction
+function fixCheckDigit(digits: string, checkDigit: (digits: string) => boolean): { digits: string; correction: string } | null {
+  const valid = digits.split('').flatMap((char, index) => (DIGIT_LOOKALIKES[char] ?? []).map(other => ({
+    digits: digits.slice(0, index) + other + digits.slice(index + 1),
+    correction: `${char}→${other}@${index}`,
+  }))).filter(candidate => checkDigit(candidate.digits));
+  return valid.length === 1 ? valid[0] : null;
+}
+
+// Read an ID as OCR'd: letters standing in for digits are corrected, then length, prefix and
+// check digit must all pass. Returns null when the text can't be a valid ID.
+export function validateId(raw: string, format: IdFormat): ParsedId | null {
+  const token = raw.trim();
+  const prefix = format.prefixes
+    ? format.prefixes.find(p => token.toUpperCase().startsWith(p.toUpperCase()))
+    : '';
+  if (prefix === undefined) return null;
+
+  const body = token.slice(prefix.length);
+  // Mostly real digits, or every word of the right length would become an ID
+  if (body.replace(/[^0-9]/g, '').length < body.length / 2) return null;
+  const { text: digits, corrections } = fixDigitConfusions(body);
+  if (!/^\d+$/.test(digits) || digits.length < format.minLength || digits.length > format.maxLength) return null;
+
+  if (format.checkDigit && !format.checkDigit(digits)) {
+    const fixed = fixCheckDigit(digits, format.checkDigit);
+    if (!fixed) return null;
+    return { value: prefix.toUpperCase() + fixed.digits, corrections: [...corrections, fixed.correction] };
+  }
+  return { value: prefix.toUpperCase() + digits, corrections };
+}
+
+// Every valid ID in a line, left to right
+export function findIds(line: string, format: IdFormat): FoundId[] {
+  const found: FoundId[] = [];
+  for (const match of line.matchAll(/(?<![A-Za-z0-9|!])[A-Za-z0-9|!]+(?![A-Za-z0-9|!])/g)) {
+    const parsed = validateId(match[0], format);
+    if (parsed) {
+      const start = match.index ?? 0;
+      found.push({ ...parsed, start, end: start + match[0].length });
+    }
+  }
+  return found;
+}
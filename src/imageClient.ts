@@ -0,0 +1,67 @@
+import type { ImageClient, ImageJob, ImageJobType, ImageRequest, ImageResponse, ImageResult } from './imageJobs';
+
+// The page's side of the image worker protocol. Requests are numbered and answered by number, in
+// whatever order the worker finishes them.
+
+// The parts of a Worker the client uses
+export interface ImagePort {
+  postMessage(message: ImageRequest, transfer: Transferable[]): void;
+  onmessage: ((event: MessageEvent<ImageResponse>) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+  terminate(): void;
+}
+
+// Live frames are handed over to the worker rather than copied
+export function transferables(job: object): Transferable[] {
+  return 'frame' in job && job.frame ? [job.frame as Transferable] : [];
+}
+
+// Sends jobs to the worker. Should the worker fail to start or OpenCV fail to load in it, it is
+// terminated, and the jobs it had and every later one run on fallback instead. Frames it had are
+// gone with it, those jobs fail and the next poll takes a fresh frame.
+export function createImageClient(port: ImagePort, fallback: ImageClient): ImageClient {
+  type Pending = {
+    resolve: (result: ImageResult<ImageJobType>) => void;
+    reject: (error: Error) => void;
+    // The same job on fallback
+    runLocally: () => Promise<ImageResult<ImageJobType>>;
+  };
+  const pending = new Map<number, Pending>();
+  let nextId = 0;
+  let failed = false;
+
+  const retry = ({ resolve, reject, runLocally }: Pending) => {
+    runLocally().then(resolve, reject);
+  };
+  const fail = (reason: string) => {
+    if (!failed) {
+      console.error('[imageWorker] Unavailable, running image jobs on the page:', reason);
+      port.terminate();
+    }
+    failed = true;
+    const stranded = Array.from(pending.values());
+    pending.clear();
+    stranded.forEach(retry);
+  };
+
+  port.onmessage = ({ data }) => {
+    const entry = pending.get(data.id);
+    if (!entry) return;
+    if ('error' in data && data.unavailable) return fail(data.error);
+    pending.delete(data.id);
+    if ('error' in data) entry.reject(new Error(data.error));
+    else entry.resolve(data.result);
+  };
+  port.onerror = event => fail(event.message);
+
+  return {
+    request<K extends ImageJobType>(type: K, job: ImageJob<K>): Promise<ImageResult<K>> {
+      if (failed) return fallback.request(type, job);
+      return new Promise((resolve, reject) => {
+        const request = { id: nextId++, type, job } as ImageRequest;
+        pending.set(request.id, { resolve: resolve as Pending['resolve'], reject, runLocally: () => fallback.request(type, job) });
+        port.postMessage(request, transferables(job));
+      });
+    },
+  };
+}
@@ -0,0 +1,187 @@
+import cv, { Mat } from 'opencv-ts';
+import { Quad } from './cardQuad';
+import { PreprocessStep } from './pipeline';
+import { Angle } from './orientation';
+import { ImageQuality, gradeQuality, measureQuality } from './imageQuality';
+import { DebugMat, cvReady, deskew, findCardQuad, rotateMat, runPipeline, sampleFrame, textLineAngles, toGray, toImageData } from './imageOps';
+
+// The image jobs the page hands to the image worker, or runs itself where there is none. Images go
+// back and forth as Blobs, live camera frames as ImageBitmaps the page transfers and never sees again.
+
+// An intermediate image for the debug panel
+export interface DebugImage {
+  label: string;
+  subtitle?: string;
+  image: Blob;
+}
+
+export interface ImageJobs {
+  // Find the card in a downscaled camera frame, for the live outline
+  outline: {
+    job: { frame: ImageBitmap; minArea: number };
+    result: { quad: Quad | null };
+  };
+  // Measure a camera frame for auto-capture, and turn it landscape as a JPEG for the preview OCR
+  sample: {
+    job: { frame: ImageBitmap; width: number };
+    result: { sharpness: number; hash: string; preview: Blob };
+  };
+  // Flatten the card, or keep the whole image when there is no card to find. angles are the two
+  // it can be at going by its text lines, for when OSD can't tell.
+  card: {
+    job: { image: Blob; cardWidth: number };
+    result: { card: Blob; found: boolean; angles: [Angle, Angle]; debug: DebugImage[] };
+  };
+  // Turn an image clockwise by a right angle
+  rotate: {
+    job: { image: Blob; angle: Angle };
+    result: { image: Blob };
+  };
+  // Turn the card upright, grade it and run the scan mode's steps
+  finish: {
+    job: { card: Blob; angle: Angle; steps: readonly PreprocessStep[] };
+    result: { image: Blob; quality: ImageQuality; width: number; height: number; debug: DebugImage[] };
+  };
+  // Run preprocessing steps on an image, e.g. an auto-best pass on the flattened card
+  pipeline: {
+    job: { image: Blob; steps: readonly PreprocessStep[] };
+    result: { image: Blob; debug: DebugImage[] };
+  };
+}
+
+export type ImageJobType = keyof ImageJobs;
+export type ImageJob<K extends ImageJobType> = ImageJobs[K]['job'];
+export type ImageResult<K extends ImageJobType> = ImageJobs[K]['result'];
+
+// Messages between the page and the worker, matched up by id. unavailable: the worker can't run
+// any job, OpenCV didn't load in it.
+export type ImageRequest = { [K in ImageJobType]: { id: number; type: K; job: ImageJob<K> } }[ImageJobType];
+export type ImageResponse = { id: number; result: ImageResult<ImageJobType> } | { id: number; error: string; unavailable?: boolean };
+
+// Something to draw on and encode: an OffscreenCanvas in the worker, a canvas element on the page
+export interface Surface {
+  context: Pick<CanvasRenderingContext2D, 'drawImage' | 'getImageData' | 'putImageData'>;
+  encode(type: string, quality?: number): Promise<Blob>;
+}
+
+export type CreateSurface = (width: number, height: number) => Surface;
+
+export interface ImageClient {
+  request<K extends ImageJobType>(type: K, job: ImageJob<K>): Promise<ImageResult<K>>;
+}
+
+async function readMat(source: Blob | ImageBitmap, createSurface: CreateSurface): Promise<Mat> {
+  const bitmap = source instanceof Blob ? await createImageBitmap(source) : source;
+  const { context } = createSurface(bitmap.width, bitmap.height);
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return cv.matFromImageData(context.getImageData(0, 0, bitmap.width, bitmap.height));
+}
+
+function writeMat(mat: Mat, createSurface: CreateSurface, type = 'image/png'): Promise<Blob> {
+  const { context, encode } = createSurface(mat.cols, mat.rows);
+  context.putImageData(toImageData(mat), 0, 0);
+  return encode(type);
+}
+
+// Collects debug images. Pixels are copied straight away, as the Mat is usually deleted right after.
+function debugCollector(createSurface: CreateSurface) {
+  const images: Array<Promise<DebugImage>> = [];
+  const debug: DebugMat = (mat, label, subtitle) => {
+    const { context, encode } = createSurface(mat.cols, mat.rows);
+    context.putImageData(toImageData(mat), 0, 0);
+    images.push(encode('image/png').then(image => ({ label, subtitle: subtitle ?? `w:${mat.cols} h:${mat.rows}`, image })));
+  };
+  return { debug, images: () => Promise.all(images) };
+}
+
+type Handlers = { [K in ImageJobType]: (job: ImageJob<K>, createSurface: CreateSurface) => Promise<ImageResult<K>> };
+
+const handlers: Handlers = {
+  async outline({ frame, minArea }, createSurface) {
+    const src = await readMat(frame, createSurface);
+    const quad = findCardQuad(src, minArea);
+    src.delete();
+    return { quad };
+  },
+
+  async sample({ frame, width }, createSurface) {
+    const src = await readMat(frame, createSurface);
+    const sample = sampleFrame(src, width);
+    // Portrait frames are read on their side, the card is held landscape
+    const landscape = src.rows > src.cols ? rotateMat(src, 90) : src.clone();
+    const preview = await writeMat(landscape, createSurface, 'image/jpeg');
+    src.delete(); landscape.delete();
+    return { ...sample, preview };
+  },
+
+  async card({ image, cardWidth }, createSurface) {
+    const { debug, images } = debugCollector(createSurface);
+    const src = await readMat(image, createSurface);
+    debug(src, 'perProcessImage - Start');
+    const { card, found } = deskew(src, cardWidth, debug);
+    const angles = textLineAngles(card);
+    const encoded = await writeMat(card, createSurface);
+    src.delete(); card.delete();
+    return { card: encoded, found, angles, debug: await images() };
+  },
+
+  async rotate({ image, angle }, createSurface) {
+    const src = await readMat(image, createSurface);
+    const rotated = rotateMat(src, angle);
+    const encoded = await writeMat(rotated, createSurface);
+    src.delete(); rotated.delete();
+    return { image: encoded };
+  },
+
+  async finish({ card, angle, steps }, createSurface) {
+    const { debug, images } = debugCollector(createSurface);
+    const src = await readMat(card, createSurface);
+    const upright = rotateMat(src, angle);
+    if (angle !== 0) debug(upright, `preprocessImage - Rotated ${angle}°`);
+    // Quality is measured on the plain grayscale card, whatever the scan mode does to it
+    const gray = toGray(upright);
+    const quality = gradeQuality(measureQuality(gray.data, gray.cols, gray.rows));
+    debug(gray, 'preprocessImage - Quality', `${quality.level}: sharpness ${Math.round(quality.sharpness)}, glare ${(quality.glare * 100).toFixed(1)}%, exposure ${Math.round(quality.exposure)}`);
+    const processed = runPipeline(upright, steps, debug);
+    const image = await writeMat(processed, createSurface);
+    const { cols: width, rows: height } = upright;
+    src.delete(); upright.delete(); gray.delete(); processed.delete();
+    return { image, quality, width, height, debug: await images() };
+  },
+
+  async pipeline({ image, steps }, createSurface) {
+    const { debug, images } = debugCollector(createSurface);
+    const src = await readMat(image, createSurface);
+    const processed = runPipeline(src, steps, debug);
+    const encoded = await writeMat(processed, createSurface);
+    src.delete(); processed.delete();
+    return { image: encoded, debug: await images() };
+  },
+};
+
+export async function runImageJob<K extends ImageJobType>(type: K, job: ImageJob<K>, createSurface: CreateSurface): Promise<ImageResult<K>> {
+  await cvReady();
+  return (handlers[type] as Handlers[K])(job, createSurface);
+}
+
+const message = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Run a request from the page, in the worker, answering with its result or what went wrong
+export async function runImageRequest(request: ImageRequest, createSurface: CreateSurface): Promise<ImageResponse> {
+  try {
+    await cvReady();
+  } catch (error) {
+    return { id: request.id, error: message(error), unavailable: true };
+  }
+  try {
+    return { id: request.id, result: await runImageJob(request.type, request.job, createSurface) };
+  } catch (error) {
+    return { id: request.id, error: message(error) };
+  }
+}
+
+// Runs jobs on the page itself, where there is no worker to run them
+export function localImageClient(createSurface: CreateSurface): ImageClient {
+  return { request: (type, job) => runImageJob(type, job, createSurface) };
+}
@@ -0,0 +1,237 @@
+import cv, { Mat, Size } from 'opencv-ts';
+import { Quad, cardSize, isCardShaped, landscapeQuad, orderCorners, quadArea } from './cardQuad';
+import { PreprocessStep, cropRect, describeStep, oddSize } from './pipeline';
+import { Angle, textLineAxis } from './orientation';
+import { measureQuality } from './imageQuality';
+import { averageHash } from './autoCapture';
+
+// OpenCV operations on Mats, with no DOM: they run in the image worker, or on the page where it has none
+
+export type DebugMat = (mat: Mat, label: string, subtitle?: string) => void;
+
+// How long OpenCV gets to compile before it is taken not to load at all
+const CV_READY_TIMEOUT_MS = 30000;
+
+let ready: Promise<void> | null = null;
+
+// OpenCV.js compiles its WebAssembly after it is imported; the Mat class only exists once it has.
+// Rejects, for good, when it aborts or takes too long.
+export function cvReady(): Promise<void> {
+  ready ??= new Promise((resolve, reject) => {
+    const module = cv as unknown as { Mat?: unknown; onAbort?: (what: unknown) => void };
+    if (typeof module.Mat === 'function') return resolve();
+    const timer = setTimeout(() => reject(new Error('OpenCV did not load in time')), CV_READY_TIMEOUT_MS);
+    cv.onRuntimeInitialized = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    module.onAbort = what => {
+      clearTimeout(timer);
+      reject(new Error(`OpenCV failed to load: ${String(what)}`));
+    };
+  });
+  return ready;
+}
+
+// Find the card: the largest convex four-cornered contour with the card's proportions.
+// Returns null when there is none, e.g. the card fills the frame or its edges are lost in glare.
+// Shared by the preprocessor and the live outline over the camera view.
+export function findCardQuad(src: Mat, minArea?: number, debug?: DebugMat): Quad | null {
+  const gray = new cv.Mat();
+  cv.cvtColor(src, gray, cv.COLOR_RGBA2GRAY, 0);
+  const blurred = new cv.Mat();
+  cv.GaussianBlur(gray, blurred, new cv.Size(5, 5), 0, 0, cv.BORDER_DEFAULT);
+
+  const edges = new cv.Mat();
+  cv.Canny(blurred, edges, 50, 150);
+  // Close small gaps in the card edge so it comes out as one contour
+  const kernel = cv.getStructuringElement(cv.MORPH_RECT, new cv.Size(5, 5), new cv.Point(-1, -1));
+  const closed = new cv.Mat();
+  cv.morphologyEx(edges, closed, cv.MORPH_CLOSE, kernel, new cv.Point(-1, -1), 1, cv.BORDER_CONSTANT, cv.morphologyDefaultBorderValue());
+  debug?.(closed, 'findCardQuad - Edges');
+
+  const contours = new cv.MatVector();
+  const hierarchy = new cv.Mat();
+  cv.findContours(closed, contours, hierarchy, cv.RETR_EXTERNAL, cv.CHAIN_APPROX_SIMPLE);
+
+  let best: Quad | null = null;
+  let bestArea = 0;
+  const imageArea = src.cols * src.rows;
+  for (let i = 0; i < contours.size(); i++) {
+    const contour = contours.get(i);
+    const approx = new cv.Mat();
+    cv.approxPolyDP(contour, approx, 0.02 * cv.arcLength(contour, true), true);
+    if (approx.rows === 4 && cv.isContourConvex(approx)) {
+      const corners = [0, 1, 2, 3].map(corner => ({ x: approx.data32S[corner * 2], y: approx.data32S[corner * 2 + 1] }));
+      const quad = landscapeQuad(orderCorners(corners));
+      const area = quadArea(quad);
+      if (area > bestArea && isCardShaped(quad, imageArea, { minArea })) {
+        best = quad;
+        bestArea = area;
+      }
+    }
+    approx.delete();
+    contour.delete();
+  }
+
+  gray.delete(); blurred.delete(); edges.delete(); kernel.delete(); closed.delete(); contours.delete(); hierarchy.delete();
+  return best;
+}
+
+// Warp the card flat to cardWidth, undoing tilt and perspective. Falls back to a copy of the whole
+// image when no card is found.
+export function deskew(src: Mat, cardWidth: number, debug?: DebugMat): { card: Mat; found: boolean } {
+  const quad = findCardQuad(src, undefined, debug);
+  if (!quad) {
+    debug?.(src, 'deskewImage - No card found', 'Using the whole image');
+    return { card: src.clone(), found: false };
+  }
+
+  if (debug) {
+    const outline = src.clone();
+    quad.forEach((corner, i) => {
+      const next = quad[(i + 1) % quad.length];
+      cv.line(outline, new cv.Point(corner.x, corner.y), new cv.Point(next.x, next.y), new cv.Scalar(0, 255, 0, 255), 4);
+    });
+    debug(outline, 'deskewImage - Card found', `area ${Math.round(quadArea(quad) / (src.cols * src.rows) * 100)}%`);
+    outline.delete();
+  }
+
+  const size = cardSize(cardWidth);
+  const from = cv.matFromArray(4, 1, cv.CV_32FC2, quad.flatMap(corner => [corner.x, corner.y]));
+  const to = cv.matFromArray(4, 1, cv.CV_32FC2, [0, 0, size.width, 0, size.width, size.height, 0, size.height]);
+  const transform = cv.getPerspectiveTransform(from, to);
+  const warped = new cv.Mat();
+  cv.warpPerspective(src, warped, transform, new cv.Size(size.width, size.height), cv.INTER_LINEAR, cv.BORDER_REPLICATE);
+  debug?.(warped, 'deskewImage - Warped');
+
+  from.delete(); to.delete(); transform.delete();
+  return { card: warped, found: true };
+}
+
+// CLAHE is in the OpenCV.js build but not in the opencv-ts types
+type ClaheConstructor = new (clipLimit: number, tileGridSize: Size) => { apply(src: Mat, dst: Mat): void; delete(): void };
+
+export function toGray(src: Mat): Mat {
+  const gray = new cv.Mat();
+  if (src.channels() === 1) src.copyTo(gray);
+  else cv.cvtColor(src, gray, cv.COLOR_RGBA2GRAY, 0);
+  return gray;
+}
+
+function runStep(src: Mat, step: PreprocessStep): Mat {
+  const dst = new cv.Mat();
+  switch (step.op) {
+    case 'scale': {
+      const height = Math.round(src.rows * step.width / src.cols);
+      cv.resize(src, dst, new cv.Size(step.width, height), 0, 0, step.width < src.cols ? cv.INTER_AREA : cv.INTER_CUBIC);
+      return dst;
+    }
+    case 'grayscale':
+      dst.delete();
+      return toGray(src);
+    case 'denoise':
+      if (step.method === 'median') cv.medianBlur(src, dst, oddSize(step.kernel));
+      else cv.GaussianBlur(src, dst, new cv.Size(oddSize(step.kernel), oddSize(step.kernel)), 0, 0, cv.BORDER_DEFAULT);
+      return dst;
+    case 'clahe': {
+      const gray = toGray(src);
+      const Clahe = (cv as unknown as { CLAHE: ClaheConstructor }).CLAHE;
+      const clahe = new Clahe(step.clipLimit, new cv.Size(step.tileSize, step.tileSize));
+      clahe.apply(gray, dst);
+      clahe.delete(); gray.delete();
+      return dst;
+    }
+    case 'threshold': {
+      const gray = toGray(src);
+      if (step.method === 'otsu') {
+        cv.threshold(gray, dst, 0, 255, cv.THRESH_BINARY + cv.THRESH_OTSU);
+      } else {
+        const method = step.method === 'adaptive-mean' ? cv.ADAPTIVE_THRESH_MEAN_C : cv.ADAPTIVE_THRESH_GAUSSIAN_C;
+        cv.adaptiveThreshold(gray, dst, 255, method, cv.THRESH_BINARY, oddSize(step.blockSize), step.c);
+      }
+      gray.delete();
+      return dst;
+    }
+    case 'invert':
+      cv.bitwise_not(src, dst);
+      return dst;
+    case 'sharpen': {
+      const blurred = new cv.Mat();
+      cv.GaussianBlur(src, blurred, new cv.Size(0, 0), step.radius, step.radius, cv.BORDER_DEFAULT);
+      cv.addWeighted(src, 1 + step.amount, blurred, -step.amount, 0, dst);
+      blurred.delete();
+      return dst;
+    }
+    case 'crop': {
+      const rect = cropRect(step, src.cols, src.rows);
+      const region = src.roi(new cv.Rect(rect.x, rect.y, rect.width, rect.height));
+      region.copyTo(dst);
+      region.delete();
+      return dst;
+    }
+  }
+}
+
+// Run a scan mode's preprocessing steps in order, handing each result to debug. Returns a new Mat;
+// src is left alone.
+export function runPipeline(src: Mat, steps: readonly PreprocessStep[], debug?: DebugMat): Mat {
+  let current = src.clone();
+  steps.forEach((step, index) => {
+    const next = runStep(current, step);
+    current.delete();
+    current = next;
+    debug?.(current, `runPipeline - ${index + 1}. ${describeStep(step)}`);
+  });
+  return current;
+}
+
+// Rotate clockwise by a right angle; cv.rotate isn't in the OpenCV.js build
+export function rotateMat(src: Mat, angle: Angle): Mat {
+  const dst = new cv.Mat();
+  if (angle === 0) {
+    src.copyTo(dst);
+  } else if (angle === 180) {
+    cv.flip(src, dst, -1);
+  } else {
+    const transposed = new cv.Mat();
+    cv.transpose(src, transposed);
+    cv.flip(transposed, dst, angle === 90 ? 1 : 0);
+    transposed.delete();
+  }
+  return dst;
+}
+
+// The two angles the card can be at, from the direction of its text lines
+export function textLineAngles(card: Mat): [Angle, Angle] {
+  const gray = toGray(card);
+  const bin = new cv.Mat();
+  cv.threshold(gray, bin, 0, 255, cv.THRESH_BINARY_INV + cv.THRESH_OTSU);
+  const axis = textLineAxis(bin.data, bin.cols, bin.rows);
+  gray.delete(); bin.delete();
+  return axis === 'horizontal' ? [0, 180] : [90, 270];
+}
+
+// Sharpness and a 16 x 16 average hash of a camera frame, measured at width, for auto-capture
+export function sampleFrame(src: Mat, width: number): { sharpness: number; hash: string } {
+  const gray = toGray(src);
+  const scaled = new cv.Mat();
+  const scale = Math.min(1, width / src.cols);
+  cv.resize(gray, scaled, new cv.Size(Math.round(src.cols * scale), Math.round(src.rows * scale)), 0, 0, cv.INTER_AREA);
+  const small = new cv.Mat();
+  cv.resize(scaled, small, new cv.Size(16, 16), 0, 0, cv.INTER_AREA);
+  const sample = { sharpness: measureQuality(scaled.data, scaled.cols, scaled.rows).sharpness, hash: averageHash(small.data) };
+  gray.delete(); scaled.delete(); small.delete();
+  return sample;
+}
+
+// RGBA pixels of a Mat, grey or colour, ready to put on a canvas
+export function toImageData(mat: Mat): ImageData {
+  const rgba = new cv.Mat();
+  if (mat.channels() === 1) cv.cvtColor(mat, rgba, cv.COLOR_GRAY2RGBA, 0);
+  else if (mat.channels() === 3) cv.cvtColor(mat, rgba, cv.COLOR_RGB2RGBA, 0);
+  else mat.copyTo(rgba);
+  const imageData = new ImageData(new Uint8ClampedArray(rgba.data), rgba.cols, rgba.rows);
+  rgba.delete();
+  return imageData;
+}
@@ -0,0 +1,75 @@
+// Is a capture worth reading? Sharpness, glare and exposure measured on the grayscale card image
+
+export interface QualityMetrics {
+  // Variance of the Laplacian - low when the image is blurred
+  sharpness: number;
+  // Share of blown-out pixels, e.g. light reflecting off a laminated card
+  glare: number;
+  // Mean brightness, 0-255
+  exposure: number;
+}
+
+export type QualityLevel = 'good' | 'warn' | 'reject';
+
+export interface ImageQuality extends QualityMetrics {
+  level: QualityLevel;
+  // What is wrong, e.g. 'blurry', for the notification and the queue view
+  problems: string[];
+}
+
+// Below warn a capture is queued with a warning, below reject it is dropped
+export const QUALITY_THRESHOLDS = {
+  sharpness: { warn: 60, reject: 20 },
+  glare: { warn: 0.02, reject: 0.1 },
+  underexposed: { warn: 60, reject: 30 },
+  overexposed: { warn: 200, reject: 230 },
+};
+
+// Brightness a pixel is counted as blown out from
+const BLOWN_OUT = 250;
+
+// gray is one byte per pixel, row by row, e.g. the data of a CV_8UC1 Mat
+export function measureQuality(gray: ArrayLike<number>, width: number, height: number): QualityMetrics {
+  let brightness = 0;
+  let blownOut = 0;
+  for (let i = 0; i < width * height; i++) {
+    brightness += gray[i];
+    if (gray[i] >= BLOWN_OUT) blownOut++;
+  }
+
+  // 4-neighbour Laplacian over the inner pixels
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = gray[i - 1] + gray[i + 1] + gray[i - width] + gray[i + width] - 4 * gray[i];
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+  const mean = count > 0 ? sum / count : 0;
+
+  return {
+    sharpness: count > 0 ? sumSquares / count - mean * mean : 0,
+    glare: width * height > 0 ? blownOut / (width * height) : 0,
+    exposure: width * height > 0 ? brightness / (width * height) : 0,
+  };
+}
+
+export function gradeQuality(metrics: QualityMetrics, thresholds = QUALITY_THRESHOLDS): ImageQuality {
+  const checks: Array<{ problem: string; warn: boolean; reject: boolean }> = [
+    { problem: 'blurry', warn: metrics.sharpness < thresholds.sharpness.warn, reject: metrics.sharpness < thresholds.sharpness.reject },
+    { problem: 'glare', warn: metrics.glare > thresholds.glare.warn, reject: metrics.glare > thresholds.glare.reject },
+    { problem: 'too dark', warn: metrics.exposure < thresholds.underexposed.warn, reject: metrics.exposure < thresholds.underexposed.reject },
+    { problem: 'too bright', warn: metrics.exposure > thresholds.overexposed.warn, reject: metrics.exposure > thresholds.overexposed.reject },
+  ];
+  const failed = checks.filter(check => check.warn);
+  return {
+    ...metrics,
+    level: failed.some(check => check.reject) ? 'reject' : failed.length > 0 ? 'warn' : 'good',
+    problems: failed.map(check => check.problem),
+  };
+}
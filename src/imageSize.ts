@@ -0,0 +1,62 @@
+// Sizing uploads for OCR and storage: read an image's size without decoding it, pick the size to
+// decode it at, and find the JPEG quality that fits a byte budget
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+// Width and height from a JPEG's frame header or a PNG's IHDR chunk, null for anything else.
+// Lets a 12MP photo be decoded straight to a smaller size instead of at full resolution first.
+export function imageDimensions(buffer: ArrayBuffer): ImageSize | null {
+  const view = new DataView(buffer);
+  if (view.byteLength >= 24 && view.getUint32(0) === 0x89504e47 && view.getUint32(12) === 0x49484452) {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+  let offset = 2;
+  while (offset + 9 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00) return null;
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC) which share the range
+    if (marker >= 0xffc0 && marker <= 0xffcf && marker !== 0xffc4 && marker !== 0xffc8 && marker !== 0xffcc) {
+      return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+    }
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return null;
+}
+
+// The size to decode at so the longer side is at most maxSide, keeping the proportions. Never upscales.
+export function fitWithin(size: ImageSize, maxSide: number): ImageSize {
+  const scale = Math.min(1, maxSide / Math.max(size.width, size.height));
+  return { width: Math.max(1, Math.round(size.width * scale)), height: Math.max(1, Math.round(size.height * scale)) };
+}
+
+// Bytes a base64 data URL decodes to, what it takes up once stored as a file or blob
+export function dataUrlBytes(dataUrl: string): number {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor(base64.length * 3 / 4) - padding;
+}
+
+// Binary search for the highest quality whose data URL decodes to at most maxBytes. Falls back to
+// the lowest quality when nothing fits, it is the smallest there is.
+export function encodeWithin(encode: (quality: number) => string, maxBytes: number, minQuality: number, maxQuality: number, steps = 6): string {
+  const best = encode(maxQuality);
+  if (dataUrlBytes(best) <= maxBytes) return best;
+  let low = minQuality;
+  let high = maxQuality;
+  let fits: string | null = null;
+  for (let step = 0; step < steps; step++) {
+    const quality = (low + high) / 2;
+    const encoded = encode(quality);
+    if (dataUrlBytes(encoded) <= maxBytes) {
+      fits = encoded;
+      low = quality;
+    } else {
+      high = quality;
+    }
+  }
+  return fits ?? encode(minQuality);
+}
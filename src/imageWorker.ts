@@ -0,0 +1,20 @@
+import { CreateSurface, ImageRequest, ImageResponse, runImageRequest } from './imageJobs';
+
+// The image worker: runs OpenCV and preprocessing off the page, drawing on OffscreenCanvas.
+// Built to its own bundle, see CONFIG.image.workerSrc.
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<ImageRequest>) => void) | null;
+  postMessage(message: ImageResponse): void;
+};
+
+const offscreenSurface: CreateSurface = (width, height) => {
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('No 2d context on OffscreenCanvas');
+  return { context, encode: (type, quality) => canvas.convertToBlob({ type, quality }) };
+};
+
+scope.onmessage = ({ data }) => {
+  void runImageRequest(data, offscreenSurface).then(response => scope.postMessage(response));
+};
@@ -1,7 +1,9 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useQuery, QueryClient, QueryClientProvider } from 'react-query';
 import ReactDOM from 'react-dom/client';
-import { CONFIG, FieldMatches, LOCALE, Scan, useScans } from './useScans';
+import { CONFIG, CardFraming, CardOutline, ExtractionTrace, FieldMatches, ImageQuality, LOCALE, Scan, useScans } from './useScans';
+import { AUTO_TEMPLATE_ID, getTemplate, getTemplates } from './templates';
+import { LOW_CONFIDENCE } from './confidence';
 import Webcam from "react-webcam";
 
 interface NotificationProps {
@@ -21,154 +23,6 @@ const Notification = ({ message, type, onDismiss }: NotificationProps): JSX.Elem
         </div>
     );
 };
-/*
-export type LicenceFields = {
-  type: 'family_season_licence';
-  id: string;
-  name: string;
-  dor: string;
-  issue: string;
-  valid: string;
-  spousePartner: string;
-  other: string;
-  createdAt: number;
-};
-
-export function extractFields(text: string): LicenceFields {
-  const idMatch = text.match(/\b\d{6,8}\b/);
-  const nameMatch = text.match(/NAME[\s:]+([A-Za-z .-]+)(?:\n|$)/i);
-  const dorMatch = text.match(/DOR[\s:]+([0-9\/]+)(?:\n|$)/i);
-  const issueMatch = text.match(/ISSUE[\s:]+([0-9\/]+)(?:\n|$)/i);
-  const validMatch = text.match(/VALID[\s:]+([0-9\/\- ]+)(?:\n|$)/i);
-  const spouseMatch = text.match(/SPOUSE\/PARTNER[\s:]+([A-Za-z .-]+)(?:\n|$)/i);
-  const otherMatch = text.match(/OTHER[\s]*\n([\s\S]+?)(?:\n\s*Licence|$)/i);
-
-  return {
-    type: 'family_season_licence',
-    id: idMatch?.[0] ?? '',
-    name: nameMatch?.[1]?.trim() ?? '',
-    dor: dorMatch?.[1]?.trim() ?? '',
-    issue: issueMatch?.[1]?.trim() ?? '',
-    valid: validMatch?.[1]?.trim() ?? '',
-    spousePartner: spouseMatch?.[1]?.trim() ?? '',
-    other: otherMatch
-      ? otherMatch[1]
-          .split('\n')
-          .map(line => line.trim())
-          .filter(Boolean)
-          .join(', ')
-      : '',
-    createdAt: Date.now()
-  };
-}
-
-
-
-
-  // Handle other fields (children)
-  let inOtherSection = false;
-  const otherLines: string[] = [];
-  let foundSpousePartner = false;
-  let foundOtherSection = false;
-  
-  console.log('Input text:', text);
-  console.log('Split lines:', lines);
-  
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i].trim();
-    console.log(`Line ${i}: "${line}"`);
-    
-    if (line.match(/^OTHER\s*$/i)) {
-      console.log('Found OTHER section');
-      inOtherSection = true;
-      foundOtherSection = true;
-      // Look ahead for children names until we hit Licence or another section
-      let j = i + 1;
-      while (j < lines.length) {
-        const nextLine = lines[j].trim();
-        console.log(`  Checking next line ${j}: "${nextLine}"`);
-        if (nextLine.match(/^(NAME|DOR|ISSUE|VALID|SPOUSE\/PARTNER|OTHER|Licence|FAMILY SEASON LICENCE)\s*$/i)) {
-          console.log('  Found section end');
-          break;
-        }
-        // If it's a simple name (letters, spaces, hyphens, and numbers)
-        if (nextLine.length > 0 && 
-            /^[A-Za-z][A-Za-z\s\d-]*[A-Za-z\d]$/.test(nextLine) && // Must start with a letter, can end with letter or number
-            !nextLine.match(/^(NAME|DOR|ISSUE|VALID|SPOUSE\/PARTNER|OTHER|Licence|FAMILY SEASON LICENCE|wae|srouserasmen|cance|Comin|ets)\b/i) && // Not a section header
-            !matches.name.some(m => m.value === nextLine) && // Don't include the main name
-            !matches.spousePartner.some(m => m.value === nextLine) // Don't include spouse/partner
-        ) {
-          console.log('  Found child name:', nextLine);
-          otherLines.push(nextLine);
-        } else {
-          console.log('  Line did not match child name pattern:', nextLine);
-          console.log('    Length > 0:', nextLine.length > 0);
-          console.log('    Name pattern:', /^[A-Za-z][A-Za-z\s\d-]*[A-Za-z\d]$/.test(nextLine));
-          console.log('    Not section header:', !nextLine.match(/^(NAME|DOR|ISSUE|VALID|SPOUSE\/PARTNER|OTHER|Licence|FAMILY SEASON LICENCE|wae|srouserasmen|cance|Comin|ets)\b/i));
-          console.log('    Not main name:', !matches.name.some(m => m.value === nextLine));
-          console.log('    Not spouse/partner:', !matches.spousePartner.some(m => m.value === nextLine));
-        }
-        j++;
-      }
-      i = j - 1; // Skip processed lines
-    } else if (line.match(/^SPOUSE\/PARTNER/i) || matches.spousePartner.some(m => m.line === i)) {
-      foundSpousePartner = true;
-    } else if (!foundOtherSection && foundSpousePartner && 
-      !/^(NAME|DOR|ISSUE|VALID|SPOUSE\/PARTNER|OTHER|Licence|FAMILY SEASON LICENCE|wae|srouserasmen|cance|Comin|ets)\b/i.test(line) &&
-      !/\d{6,8}/.test(line) &&
-      !/\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4}/.test(line) &&
-      !/(?:\s+Rd|\s+Street|\s+Avenue|\s+Road)/i.test(line) &&
-      line.length > 0 &&
-      /^[A-Za-z][A-Za-z\s\d-]*[A-Za-z\d]$/.test(line) && // Must start with a letter, can end with letter or number
-      !matches.name.some(m => m.value === line) && // Don't include the main name
-      !matches.spousePartner.some(m => m.value === line) // Don't include spouse/partner
-    ) {
-      otherLines.push(line);
-    }
-  }
-
-  console.log('Found other lines:', otherLines);
-
-  if (otherLines.length > 0) {
-    matches.other.push({
-      value: otherLines.join(', '),
-      confidence: foundOtherSection ? 1.0 : 0.8,
-      line: foundOtherSection ? 
-        lines.findIndex(l => l.trim().match(/^OTHER\s*$/i)) :
-        lines.findIndex(l => l.trim() === otherLines[0]),
-      pattern: foundOtherSection ? 'other-section' : 'other-implicit',
-      position: foundOtherSection ? 
-        lines.findIndex(l => l.trim().match(/^OTHER\s*$/i)) :
-        lines.findIndex(l => l.trim() === otherLines[0])
-    });
-  }
-
-  // Get best matches by confidence
-  const bestMatches = {
-    id: matches.id.sort((a, b) => b.confidence - a.confidence)[0]?.value ?? '',
-    name: matches.name.sort((a, b) => b.confidence - a.confidence)[0]?.value ?? '',
-    dor: matches.dor.sort((a, b) => b.confidence - a.confidence)[0]?.value ?? '',
-    issue: matches.issue.sort((a, b) => b.confidence - a.confidence)[0]?.value ?? '',
-    valid: matches.valid.sort((a, b) => b.confidence - a.confidence)[0]?.value ?? '',
-    spousePartner: matches.spousePartner.sort((a, b) => b.confidence - a.confidence)[0]?.value ?? '',
-    other: matches.other
-      .sort((a, b) => b.confidence - a.confidence)
-      .map(m => m.value)
-      .filter(Boolean)
-      .join(', ')
-  };
-
-  return {
-    success: bestMatches.name !== '' && bestMatches.dor !== '' && bestMatches.issue !== '' && bestMatches.valid !== '',
-    fields: {
-      type: 'family_season_licence',
-      ...bestMatches,
-      createdAt: Date.now()
-    },
-    matches
-  };
-}
-*/
 
 const CopyButton = ({ title, text }: { title: string, text: string }) => {
     return (
@@ -178,10 +32,154 @@ const CopyButton = ({ title, text }: { title: string, text: string }) => {
     );
 }
 
+const ScanFieldsView = ({ scan, onLock }: { scan: Scan; onLock?: (fieldKey: string, locked: boolean, item?: number) => void }) => {
+    const template = getTemplate(scan.templateId);
+    const fields = template
+        ? template.fields.map(field => ({ key: field.key, label: field.label }))
+        : Object.keys(scan.fields).map(key => ({ key, label: key }));
+    // List fields get a row per item, e.g. 'Other 1', 'Other 2'
+    const rows = fields.flatMap(({ key, label }) => {
+        const items = scan.fields[key]?.items;
+        if (!items || items.length === 0) return [{ key, label, field: scan.fields[key], item: undefined as number | undefined }];
+        return items.map((field, item) => ({ key, label: `${label} ${item + 1}`, field, item }));
+    });
+    // The candidate behind the value shown
+    const matchFor = (key: string, value: string | undefined, item?: number) =>
+        scan.matches[key]?.find(m => m.value === value && (item === undefined || (m.item ?? 0) === item));
+    const isLowConfidence = (key: string, value: string | undefined, item?: number) => {
+        const match = matchFor(key, value, item);
+        return !!value && !!match && match.confidence < LOW_CONFIDENCE;
+    };
+    return (
+        <div className="columns is-multiline is-mobile is-gapless">
+            {template && (
+                <div className="column is-12 mb-1">
+                    <span className="tag is-light is-italic">{template.name}</span>
+                    {(scan.frames ?? 1) > 1 && <span className="tag is-light ml-1">{scan.frames} frames</span>}
+                </div>
+            )}
+            {rows.map(({ key, label, field, item }) => (
+                <div key={`${key}-${item ?? ''}`} className="column is-12-mobile is-6-tablet">
+                    <div className="field has-addons mb-1">
+                        <div className="control is-narrow">
+                            <span className="button is-static is-small py-1 px-2 has-text-italic" style={{ minWidth: '60px', fontSize: '0.75rem', whiteSpace: 'nowrap' }}>{label}</span>
+                        </div>
+                        <div className="control is-expanded">
+                            <div
+                                className={`input is-static is-small py-1 has-text-weight-bold ${isLowConfidence(key, field?.value, item) ? 'has-text-warning-dark' : ''}`}
+                                style={{ fontSize: '0.75rem', overflow: 'hidden', textOverflow: 'ellipsis' }}
+                                title={isLowConfidence(key, field?.value, item) ? `Low confidence ${Math.round((matchFor(key, field?.value, item)?.confidence ?? 0) * 100)}% - check against the card` : undefined}
+                            >
+                                {isLowConfidence(key, field?.value, item) && '? '}{field?.value}
+                            </div>
+                        </div>
+                        {(scan.frames ?? 1) > 1 && field?.value && (
+                            <div className="control is-narrow">
+                                <span className="button is-static is-small py-1 px-2" style={{ fontSize: '0.75rem' }} title="Captures that agree on this value">{matchFor(key, field.value, item)?.frames ?? 0}/{scan.frames}</span>
+                            </div>
+                        )}
+                        {onLock && (
+                            <div className="control is-narrow">
+                                <button
+                                    className={`button is-small py-1 px-2 ${field?.locked ? 'is-warning' : 'is-light'}`}
+                                    style={{ fontSize: '0.75rem' }}
+                                    title={field?.locked ? 'Locked - rescans won\'t change it' : 'Lock this value'}
+                                    onClick={() => onLock(key, !field?.locked, item)}
+                                >
+                                    {field?.locked ? '🔒' : '🔓'}
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                    {!item && scan.warnings?.filter(warning => warning.fields.includes(key)).map(warning => (
+                        <p key={warning.code} className="help is-warning mb-1" title={warning.code}>⚠ {warning.message}</p>
+                    ))}
+                </div>
+            ))}
+        </div>
+    );
+}
+
+// Per-line extraction decisions for the debug panel
+const TraceView = ({ trace }: { trace: ExtractionTrace }) => (
+    <div className="content is-small">
+        <ul>
+            {trace.notes.map((note, index) => <li key={index}>{note}</li>)}
+        </ul>
+        <table className="table is-narrow is-fullwidth">
+            <tbody>
+                {Object.entries(trace.winners).map(([field, winner]) => (
+                    <tr key={field}>
+                        <th>{field}</th>
+                        <td>{winner ? <>{winner.value} <span className="has-text-grey">{winner.pattern} {winner.confidence.toFixed(2)}</span></> : <span className="has-text-grey">not found</span>}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+        {trace.lines.map(line => (
+            <div key={line.line} className="mb-2">
+                <code>{line.line}: {line.text}</code>
+                {line.fired.map((rule, index) => (
+                    <p key={`fired-${index}`} className="has-text-success mb-0">✓ {rule.field} ← {rule.value} <span className="has-text-grey">{rule.pattern} {rule.confidence.toFixed(2)}</span></p>
+                ))}
+                {line.rejected.map((rejection, index) => (
+                    <p key={`rejected-${index}`} className="has-text-danger mb-0">✗ {rejection.rule}: {rejection.reason}</p>
+                ))}
+            </div>
+        ))}
+    </div>
+);
+
 interface ScanDetailsProps {
     scan: Scan;
 }
 
+const FRAMING_STYLES: Record<CardFraming, { color: string; hint: string }> = {
+    'none': { color: '#ff3860', hint: 'Looking for a card' },
+    'too-far': { color: '#ffdd57', hint: 'Move closer' },
+    'too-skewed': { color: '#ffdd57', hint: 'Hold the card flat and square' },
+    'good': { color: '#23d160', hint: 'Good - take the photo' },
+};
+
+// Detected card outline over the camera view. The viewBox is the video's own pixels and slices
+// like the video's objectFit: cover, so the outline lines up with the card on screen.
+const CardOutlineOverlay = ({ outline }: { outline: CardOutline }) => {
+    const { color, hint } = FRAMING_STYLES[outline.framing];
+    return (
+        <>
+            <svg
+                viewBox={`0 0 ${outline.width} ${outline.height}`}
+                preserveAspectRatio="xMidYMid slice"
+                style={{ position: 'absolute', top: 0, left: 0, width: '100%', height: '100%', pointerEvents: 'none' }}
+            >
+                {outline.quad && (
+                    <polygon
+                        points={outline.quad.map(corner => `${corner.x},${corner.y}`).join(' ')}
+                        fill="none"
+                        stroke={color}
+                        strokeWidth={Math.max(4, outline.width / 200)}
+                    />
+                )}
+            </svg>
+            <span className="tag is-medium" style={{ position: 'absolute', bottom: '0.75rem', left: '50%', transform: 'translateX(-50%)', background: color }}>
+                {hint}
+            </span>
+        </>
+    );
+};
+
+// Sharpness, glare and exposure of a capture, highlighted when borderline
+const QualityTags = ({ quality }: { quality: ImageQuality }) => {
+    const color = quality.level === 'good' ? 'is-success' : 'is-warning';
+    return (
+        <span className="tags has-addons is-inline-flex ml-2 mb-0" title={quality.problems.join(', ') || 'Good capture'}>
+            <span className={`tag is-light ${color}`}>sharp {Math.round(quality.sharpness)}</span>
+            <span className={`tag is-light ${color}`}>glare {(quality.glare * 100).toFixed(1)}%</span>
+            <span className={`tag is-light ${color}`}>exp {Math.round(quality.exposure)}</span>
+        </span>
+    );
+};
+
 const SummaryDetails = (obj: any) => {
     if(typeof obj !== 'object') {
         return <div>{obj}</div>;
@@ -248,17 +246,21 @@ const App = (): JSX.Element => {
     const webcamRef = useRef<Webcam | null>(null);
 
     const {
-        scans, addScan, clearScans, clearScan, activeScanId, setActiveScanId, lockField, mergeFieldsToActiveScan, worker,
-        clearAllScans, isProcessing, setSelectedScanMode, processImage, handleFileUpload, takePhoto, orcStrength, selectedScanMode, debugImages
+        scans, progress, addScan, clearScans, clearScan, activeScanId, setActiveScanId, lockField, mergeFieldsToActiveScan,
+        clearAllScans, isProcessing, setSelectedScanMode, processImage, handleFileUpload, reprocessScan, takePhoto, orcStrength, cardOutline, selectedScanMode, debugImages,
+        selectedTemplate, setSelectedTemplate, isRescanMode, setIsRescanMode, isAutoCapture, setIsAutoCapture
     } = useScans({
         videoRef: webcamRef,
         showNotification: showNotification,
-        startSelectedScanMode: params.get('mode') || CONFIG.scanModes[0].id
+        startSelectedScanMode: params.get('mode') || CONFIG.scanModes[0].id,
+        startSelectedTemplate: params.get('template') || AUTO_TEMPLATE_ID
     });
     const [notifications, setNotifications] = useState<Array<{ id: string; message: string; type: string }>>([]);
     const [isCameraActive, setIsCameraActive] = useState(query.data?.isCameraActive ?? false);
 
     const [isDeleteMode, setIsDeleteMode] = useState(false);
+    // Scan mode picked for reprocessing each scan, by scan id; the selected scan mode until one is picked
+    const [reprocessModes, setReprocessModes] = useState<Record<string, string>>({});
 
     const [orientation, setOrientation] = useState<number>(window.screen.orientation?.angle || window.orientation || 0);
     const [videoDimensions, setVideoDimensions] = useState<{ width: number; height: number }>({ width: 0, height: 0 });
@@ -290,7 +292,7 @@ const App = (): JSX.Element => {
             <div className="scan-details">
                 <div className="is-flex is-flex-direction-column is-align-items-center gap-3">
                     {scan.status === 'processing' && (
-                        <progress className="progress is-small is-primary" max={100}>
+                        <progress className="progress is-small is-primary" max={100} value={progress[scan.id] === undefined ? undefined : progress[scan.id] * 100}>
                             Processing...
                         </progress>
                     )}
@@ -306,7 +308,55 @@ const App = (): JSX.Element => {
                             }}>
                             Copy Scan
                         </button>
+                        {isRescanMode && activeScanId === scan.id ? (
+                            <button
+                                className="button is-small is-warning"
+                                style={{ borderRadius: '4px' }}
+                                onClick={() => setIsRescanMode(false)}>
+                                Stop Rescan
+                            </button>
+                        ) : (
+                            <button
+                                className="button is-small is-info is-light"
+                                style={{ borderRadius: '4px' }}
+                                title="Fuse further captures of this card into this scan"
+                                onClick={() => {
+                                    setActiveScanId(scan.id);
+                                    setIsRescanMode(true);
+                                    showNotification('New captures will be added to this scan', 'info');
+                                }}>
+                                Rescan
+                            </button>
+                        )}
+                        {scan.original && (
+                            <div className="field has-addons">
+                                <div className="control">
+                                    <div className="select is-small">
+                                        <select
+                                            aria-label="Scan mode to reprocess with"
+                                            value={reprocessModes[scan.id] ?? selectedScanMode}
+                                            onChange={(e) => setReprocessModes(prev => ({ ...prev, [scan.id]: e.target.value }))}
+                                        >
+                                            {CONFIG.scanModes.map(mode => (
+                                                <option key={mode.id} value={mode.id}>
+                                                    {mode.name}{mode.id === scan.pipeline?.mode ? ' (current)' : ''}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                </div>
+                                <div className="control">
+                                    <button
+                                        className="button is-small is-info is-light"
+                                        title="Read the original capture again with this scan mode, keeping locked fields"
+                                        onClick={() => void reprocessScan(scan.id, reprocessModes[scan.id] ?? selectedScanMode, showNotification)}>
+                                        Reprocess
+                                    </button>
+                                </div>
+                            </div>
+                        )}
                     </div>
+                    {scan.pipeline && <span className="tag is-light" title={scan.pipeline.steps.join(', ')}>{scan.pipeline.mode}</span>}
                    
                     <details className="w-100 py-2">
                         <summary>Advance</summary>
@@ -314,6 +364,12 @@ const App = (): JSX.Element => {
                         <pre className="mt-2"><code>{JSON.stringify(scan.ocrText, null, 4)}</code></pre>
                         <pre className="mt-2"><code>{JSON.stringify(scan.fields, null, 4)}</code></pre>
                         <pre className="mt-2"><code>{JSON.stringify(scan.matches, null, 4)}</code></pre>
+                        {scan.history?.map((entry, index) => (
+                            <details key={entry.replacedAt} className="mt-2">
+                                <summary>Earlier result {index + 1} - {entry.pipeline?.mode ?? 'unknown mode'}</summary>
+                                <pre><code>{JSON.stringify(entry.fields, null, 4)}</code></pre>
+                            </details>
+                        ))}
 
                         
 
@@ -355,17 +411,50 @@ const App = (): JSX.Element => {
 
 
     const copyCSV = (scans: Scan[], includeHeader: boolean = false) => {
-        const header = 'id\tname\tdor\tissue\tvalid\tspousePartner\tother\tcreatedAt';
-        const rows = scans.map(scan => [
-        scan.fields.id.value,
-        scan.fields.name.value,
-        scan.fields.dor.value,
-        scan.fields.issue.value,
-        scan.fields.valid.value,
-        scan.fields.spousePartner.value,
-        scan.fields.other.value,
-        scan.createdAt
-        ].map(val => (val ?? '').toString().replace(/\t/g, ' ')).join('\t'));
+        // One column per field key across every template in the export, in template order.
+        // List fields get a column per item, as many as the longest list, e.g. other_1, other_2,
+        // and name and address fields are followed by their parts, e.g. name_given, name_family, address_town
+        const columns: Array<{ header: string; value: (scan: Scan) => string | number | undefined }> = [];
+        const keys: string[] = [];
+        scans.forEach(scan => {
+            const templateKeys = getTemplate(scan.templateId)?.fields.map(f => f.key) ?? Object.keys(scan.fields);
+            templateKeys.forEach(key => {
+                if (!keys.includes(key)) keys.push(key);
+            });
+        });
+        keys.forEach(key => {
+            const isList = scans.some(scan => scan.fields[key]?.items);
+            if (!isList) {
+                columns.push({ header: key, value: scan => scan.fields[key]?.value });
+                // Name fields also export their given and family parts
+                if (scans.some(scan => scan.names?.[key])) {
+                    columns.push(
+                        { header: `${key}_given`, value: scan => scan.names?.[key]?.given },
+                        { header: `${key}_family`, value: scan => scan.names?.[key]?.family }
+                    );
+                }
+                // and address fields their street, rural delivery, town and postcode
+                if (scans.some(scan => scan.addresses?.[key])) {
+                    columns.push(
+                        { header: `${key}_street`, value: scan => scan.addresses?.[key]?.street },
+                        { header: `${key}_rd`, value: scan => scan.addresses?.[key]?.ruralDelivery },
+                        { header: `${key}_town`, value: scan => scan.addresses?.[key]?.town },
+                        { header: `${key}_postcode`, value: scan => scan.addresses?.[key]?.postcode }
+                    );
+                }
+                return;
+            }
+            const itemCount = Math.max(1, ...scans.map(scan => scan.fields[key]?.items?.length ?? 0));
+            for (let item = 0; item < itemCount; item++) {
+                columns.push({ header: `${key}_${item + 1}`, value: scan => scan.fields[key]?.items?.[item]?.value });
+            }
+        });
+        columns.push({ header: 'template', value: scan => scan.templateId }, { header: 'createdAt', value: scan => scan.createdAt });
+
+        const header = columns.map(column => column.header).join('\t');
+        const rows = scans.map(scan => columns
+            .map(column => column.value(scan))
+            .map(val => (val ?? '').toString().replace(/[\t\n]/g, ' ')).join('\t'));
         let csv;
         if(includeHeader){
             csv = [header, ...rows].join('\n');
@@ -424,6 +513,7 @@ const App = (): JSX.Element => {
             <div>
             {isCameraActive && (
                 <div style={{
+                    position: 'relative',
                     top: 0,
                     left: 0,
                     width: '100%',
@@ -448,6 +538,7 @@ const App = (): JSX.Element => {
                         }}
                         mirrored={false}
                     />
+                    {cardOutline && <CardOutlineOverlay outline={cardOutline} />}
                 </div>
             )}
             {/* Optionally, show a queue of scans being processed */}
@@ -462,7 +553,16 @@ const App = (): JSX.Element => {
                                 </div>
                                 <div className="column">
                                     <span className={`tag is-${scan.status === 'processing' ? 'info' : 'warning'}`}>{scan.status}</span>
-                                    {scan.status === 'processing' && <span className="ml-2">Processing...</span>}
+                                    {scan.mergeInto && <span className="tag is-light ml-2">rescan</span>}
+                                    {scan.page !== undefined && <span className="tag is-light ml-2">page {scan.page + 1}</span>}
+                                    {scan.quality && <QualityTags quality={scan.quality} />}
+                                    {scan.orientation && scan.orientation.angle !== 0 && (
+                                        <span className="tag is-light ml-2" title={`Found by ${scan.orientation.source}`}>turned {scan.orientation.angle}°</span>
+                                    )}
+                                    {scan.orientation?.source === 'unavailable' && (
+                                        <span className="tag is-warning is-light ml-2" title="Orientation detection couldn't run, read as captured">orientation not checked</span>
+                                    )}
+                                    {scan.status === 'processing' && <span className="ml-2">Processing... {Math.round((progress[scan.id] ?? 0) * 100)}%</span>}
                                 </div>
                             </div>
                         </div>
@@ -500,80 +600,7 @@ const App = (): JSX.Element => {
                                         </td>
                                         <td>
                                             <div className="box p-2">
-                                                <div className="columns is-multiline is-mobile is-gapless">
-                                                    <div className="column is-12-mobile is-6-tablet">
-                                                        <div className="field has-addons mb-1">
-                                                            <div className="control is-narrow">
-                                                                <span className="button is-static is-small py-1 px-2 has-text-italic" style={{ minWidth: '60px', fontSize: '0.75rem', whiteSpace: 'nowrap' }}>ID</span>
-                                                            </div>
-                                                            <div className="control is-expanded">
-                                                                <div className="input is-static is-small py-1 has-text-weight-bold" style={{ fontSize: '0.75rem', overflow: 'hidden', textOverflow: 'ellipsis' }}>{scan.fields.id.value}</div>
-                                                            </div>
-                                                        </div>
-                                                    </div>
-                                                    <div className="column is-12-mobile is-6-tablet">
-                                                        <div className="field has-addons mb-1">
-                                                            <div className="control is-narrow">
-                                                                <span className="button is-static is-small py-1 px-2 has-text-italic" style={{ minWidth: '60px', fontSize: '0.75rem', whiteSpace: 'nowrap' }}>Name</span>
-                                                            </div>
-                                                            <div className="control is-expanded">
-                                                                <div className="input is-static is-small py-1 has-text-weight-bold" style={{ fontSize: '0.75rem', overflow: 'hidden', textOverflow: 'ellipsis' }}>{scan.fields.name.value}</div>
-                                                            </div>
-                                                        </div>
-                                                    </div>
-                                                    <div className="column is-12-mobile is-6-tablet">
-                                                        <div className="field has-addons mb-1">
-                                                            <div className="control is-narrow">
-                                                                <span className="button is-static is-small py-1 px-2 has-text-italic" style={{ minWidth: '60px', fontSize: '0.75rem', whiteSpace: 'nowrap' }}>DOR</span>
-                                                            </div>
-                                                            <div className="control is-expanded">
-                                                                <div className="input is-static is-small py-1 has-text-weight-bold" style={{ fontSize: '0.75rem', overflow: 'hidden', textOverflow: 'ellipsis' }}>{scan.fields.dor.value}</div>
-                                                            </div>
-                                                        </div>
-                                                    </div>
-                                                    <div className="column is-12-mobile is-6-tablet">
-                                                        <div className="field has-addons mb-1">
-                                                            <div className="control is-narrow">
-                                                                <span className="button is-static is-small py-1 px-2 has-text-italic" style={{ minWidth: '60px', fontSize: '0.75rem', whiteSpace: 'nowrap' }}>Issue</span>
-                                                            </div>
-                                                            <div className="control is-expanded">
-                                                                <div className="input is-static is-small py-1 has-text-weight-bold" style={{ fontSize: '0.75rem', overflow: 'hidden', textOverflow: 'ellipsis' }}>{scan.fields.issue.value}</div>
-                                                            </div>
-                                                        </div>
-                                                    </div>
-                                                    <div className="column is-12-mobile is-6-tablet">
-                                                        <div className="field has-addons mb-1">
-                                                            <div className="control is-narrow">
-                                                                <span className="button is-static is-small py-1 px-2 has-text-italic" style={{ minWidth: '60px', fontSize: '0.75rem', whiteSpace: 'nowrap' }}>Valid</span>
-                                                            </div>
-                                                            <div className="control is-expanded">
-                                                                <div className="input is-static is-small py-1 has-text-weight-bold" style={{ fontSize: '0.75rem', overflow: 'hidden', textOverflow: 'ellipsis' }}>{scan.fields.valid.value}</div>
-                                                            </div>
-                                                        </div>
-                                                    </div>
-                                                    <div className="column is-12-mobile is-6-tablet">
-                                                        <div className="field has-addons mb-1">
-                                                            <div className="control is-narrow">
-                                                                <span className="button is-static is-small py-1 px-2 has-text-italic" style={{ minWidth: '60px', fontSize: '0.75rem', whiteSpace: 'nowrap' }}>Partner</span>
-                                                            </div>
-                                                            <div className="control is-expanded">
-                                                                <div className="input is-static is-small py-1 has-text-weight-bold" style={{ fontSize: '0.75rem', overflow: 'hidden', textOverflow: 'ellipsis' }}>{scan.fields.spousePartner.value}</div>
-                                                            </div>
-                                                        </div>
-                                                    </div>
-                                                    {scan.fields.other.value && (
-                                                        <div className="column is-12">
-                                                            <div className="field has-addons mb-1">
-                                                                <div className="control is-narrow">
-                                                                    <span className="button is-static is-small py-1 px-2 has-text-italic" style={{ minWidth: '60px', fontSize: '0.75rem', whiteSpace: 'nowrap' }}>Other</span>
-                                                                </div>
-                                                                <div className="control is-expanded">
-                                                                    <div className="input is-static is-small py-1 has-text-weight-bold" style={{ fontSize: '0.75rem', overflow: 'hidden', textOverflow: 'ellipsis' }}>{scan.fields.other.value}</div>
-                                                                </div>
-                                                            </div>
-                                                        </div>
-                                                    )}
-                                                </div>
+                                                <ScanFieldsView scan={scan} onLock={(key, locked, item) => lockField(scan.id, key, locked, item)} />
                                             </div>
                                         </td>
                                         <td><ScanDetails scan={scan} /></td>
@@ -596,80 +623,7 @@ const App = (): JSX.Element => {
                                             <div className="column is-12">
                                                 <div className="content">
                                                     <div className="box p-2">
-                                                        <div className="columns is-multiline is-mobile is-gapless">
-                                                            <div className="column is-12-mobile is-6-tablet">
-                                                                <div className="field has-addons mb-1">
-                                                                    <div className="control is-narrow">
-                                                                        <span className="button is-static is-small py-1 px-2 has-text-italic" style={{ minWidth: '60px', fontSize: '0.75rem', whiteSpace: 'nowrap' }}>ID</span>
-                                                                    </div>
-                                                                    <div className="control is-expanded">
-                                                                        <div className="input is-static is-small py-1 has-text-weight-bold" style={{ fontSize: '0.75rem', overflow: 'hidden', textOverflow: 'ellipsis' }}>{scan.fields.id.value}</div>
-                                                                    </div>
-                                                                </div>
-                                                            </div>
-                                                            <div className="column is-12-mobile is-6-tablet">
-                                                                <div className="field has-addons mb-1">
-                                                                    <div className="control is-narrow">
-                                                                        <span className="button is-static is-small py-1 px-2 has-text-italic" style={{ minWidth: '60px', fontSize: '0.75rem', whiteSpace: 'nowrap' }}>Name</span>
-                                                                    </div>
-                                                                    <div className="control is-expanded">
-                                                                        <div className="input is-static is-small py-1 has-text-weight-bold" style={{ fontSize: '0.75rem', overflow: 'hidden', textOverflow: 'ellipsis' }}>{scan.fields.name.value}</div>
-                                                                    </div>
-                                                                </div>
-                                                            </div>
-                                                            <div className="column is-12-mobile is-6-tablet">
-                                                                <div className="field has-addons mb-1">
-                                                                    <div className="control is-narrow">
-                                                                        <span className="button is-static is-small py-1 px-2 has-text-italic" style={{ minWidth: '60px', fontSize: '0.75rem', whiteSpace: 'nowrap' }}>DOR</span>
-                                                                    </div>
-                                                                    <div className="control is-expanded">
-                                                                        <div className="input is-static is-small py-1 has-text-weight-bold" style={{ fontSize: '0.75rem', overflow: 'hidden', textOverflow: 'ellipsis' }}>{scan.fields.dor.value}</div>
-                                                                    </div>
-                                                                </div>
-                                                            </div>
-                                                            <div className="column is-12-mobile is-6-tablet">
-                                                                <div className="field has-addons mb-1">
-                                                                    <div className="control is-narrow">
-                                                                        <span className="button is-static is-small py-1 px-2 has-text-italic" style={{ minWidth: '60px', fontSize: '0.75rem', whiteSpace: 'nowrap' }}>Issue</span>
-                                                                    </div>
-                                                                    <div className="control is-expanded">
-                                                                        <div className="input is-static is-small py-1 has-text-weight-bold" style={{ fontSize: '0.75rem', overflow: 'hidden', textOverflow: 'ellipsis' }}>{scan.fields.issue.value}</div>
-                                                                    </div>
-                                                                </div>
-                                                            </div>
-                                                            <div className="column is-12-mobile is-6-tablet">
-                                                                <div className="field has-addons mb-1">
-                                                                    <div className="control is-narrow">
-                                                                        <span className="button is-static is-small py-1 px-2 has-text-italic" style={{ minWidth: '60px', fontSize: '0.75rem', whiteSpace: 'nowrap' }}>Valid</span>
-                                                                    </div>
-                                                                    <div className="control is-expanded">
-                                                                        <div className="input is-static is-small py-1 has-text-weight-bold" style={{ fontSize: '0.75rem', overflow: 'hidden', textOverflow: 'ellipsis' }}>{scan.fields.valid.value}</div>
-                                                                    </div>
-                                                                </div>
-                                                            </div>
-                                                            <div className="column is-12-mobile is-6-tablet">
-                                                                <div className="field has-addons mb-1">
-                                                                    <div className="control is-narrow">
-                                                                        <span className="button is-static is-small py-1 px-2 has-text-italic" style={{ minWidth: '60px', fontSize: '0.75rem', whiteSpace: 'nowrap' }}>Partner</span>
-                                                                    </div>
-                                                                    <div className="control is-expanded">
-                                                                        <div className="input is-static is-small py-1 has-text-weight-bold" style={{ fontSize: '0.75rem', overflow: 'hidden', textOverflow: 'ellipsis' }}>{scan.fields.spousePartner.value}</div>
-                                                                    </div>
-                                                                </div>
-                                                            </div>
-                                                            {scan.fields.other.value && (
-                                                                <div className="column is-12">
-                                                                    <div className="field has-addons mb-1">
-                                                                        <div className="control is-narrow">
-                                                                            <span className="button is-static is-small py-1 px-2 has-text-italic" style={{ minWidth: '60px', fontSize: '0.75rem', whiteSpace: 'nowrap' }}>Other</span>
-                                                                        </div>
-                                                                        <div className="control is-expanded">
-                                                                            <div className="input is-static is-small py-1 has-text-weight-bold" style={{ fontSize: '0.75rem', overflow: 'hidden', textOverflow: 'ellipsis' }}>{scan.fields.other.value}</div>
-                                                                        </div>
-                                                                    </div>
-                                                                </div>
-                                                            )}
-                                                        </div>
+                                                        <ScanFieldsView scan={scan} onLock={(key, locked, item) => lockField(scan.id, key, locked, item)} />
                                                     </div>
                                                     <ScanDetails scan={scan} />
                                                     
@@ -692,6 +646,17 @@ const App = (): JSX.Element => {
                 }}>
                     {debug ? 'Hide Debug' : 'Show Debug'}
                 </button>
+                {debug && scans.some(s => s.trace) && (
+                    <div className="py-6">
+                        <h1 className="title is-6">Extraction trace</h1>
+                        {scans.filter(s => s.trace).map(scan => (
+                            <details key={scan.id} className="mb-2">
+                                <summary>{new Date(scan.createdAt).toLocaleTimeString(LOCALE)} - {scan.fields.name?.value || scan.templateId}</summary>
+                                <TraceView trace={scan.trace!} />
+                            </details>
+                        ))}
+                    </div>
+                )}
                 {debugImages && debug && (
                     <div className="py-6">
                         <div className="columns is-multiline is-gapless text-is-white">
@@ -733,7 +698,7 @@ const App = (): JSX.Element => {
                             <input
                                 className="file-input"
                                 type="file"
-                                accept="image/*"
+                                accept="image/*,.heic,.heif,.tif,.tiff,application/pdf"
                                 multiple
                                 style={{ height: '4rem', fontSize: '1.5rem' }}
                                 onChange={e => {
@@ -759,12 +724,21 @@ const App = (): JSX.Element => {
                         <div className="has-text-centered is-flex is-justify-content-center">
                             <button
                                 className={`button ${getScanStrengthColor(orcStrength)} is-large camera-button image`}
-                                onClick={() => takePhoto(webcamRef, orientation)}
+                                onClick={() => takePhoto(webcamRef)}
                             >
-                                Take Photo {orcStrength}
+                                {isRescanMode ? 'Rescan' : 'Take Photo'} {orcStrength}
                             </button>
                         </div>
                         )}
+                        {isCameraActive && (
+                            <button
+                                className={`button ${isAutoCapture ? 'is-success' : 'is-light'}`}
+                                title="Take the photo by itself once the card is framed, sharp and readable"
+                                onClick={() => setIsAutoCapture(!isAutoCapture)}
+                            >
+                                Auto {isAutoCapture ? 'On' : 'Off'}
+                            </button>
+                        )}
                         {!isCameraActive ? (
                             <button
                                 className="button is-info"
@@ -786,7 +760,7 @@ const App = (): JSX.Element => {
                                     <input
                                         className="file-input"
                                         type="file"
-                                        accept="image/*"
+                                        accept="image/*,.heic,.heif,.tif,.tiff,application/pdf"
                                         multiple
                                         onChange={e => handleFileUpload(e, showNotification)}
                                     />
@@ -837,6 +811,23 @@ const App = (): JSX.Element => {
                                     </select>
                                 </div>
                             </div>
+                            <label className="label mt-2">Card Template</label>
+                            <p className="text-sm i">(The type of card being scanned - Auto detects it from the text)</p>
+                            <div className="control">
+                                <div className="select is-fullwidth">
+                                    <select
+                                        value={selectedTemplate}
+                                        onChange={(e) => setSelectedTemplate(e.target.value)}
+                                    >
+                                        <option value={AUTO_TEMPLATE_ID}>Auto - detect card type</option>
+                                        {getTemplates().map(template => (
+                                            <option key={template.id} value={template.id}>
+                                                {template.name} - {template.description}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                            </div>
                         </div>
                             <button
                                 className="button is-danger"
@@ -0,0 +1,37 @@
+// What kind of file an upload is, from its first bytes, so each format gets a decoder that can read it
+
+// 'image' is anything the browser decodes itself: JPEG, PNG, GIF, WebP, BMP
+export type InputFormat = 'image' | 'pdf' | 'tiff' | 'heic';
+
+// ISO base media brands of HEIF stills, as written by iPhones and most Android cameras
+const HEIF_BRANDS = ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'hevm', 'hevs', 'mif1', 'msf1'];
+
+const EXTENSIONS: Record<string, InputFormat> = {
+  pdf: 'pdf',
+  tif: 'tiff',
+  tiff: 'tiff',
+  heic: 'heic',
+  heif: 'heic',
+};
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...Array.from(bytes.subarray(start, start + length)));
+}
+
+// head: at least the first 12 bytes. Falls back to the MIME type and file extension when the bytes
+// don't say, and to 'image' so the browser gets a try at anything else.
+export function detectInputFormat(head: Uint8Array, type = '', name = ''): InputFormat {
+  if (ascii(head, 0, 5) === '%PDF-') return 'pdf';
+  if (ascii(head, 0, 4) === 'II*\0' || ascii(head, 0, 4) === 'MM\0*') return 'tiff';
+  if (ascii(head, 4, 4) === 'ftyp' && HEIF_BRANDS.includes(ascii(head, 8, 4))) return 'heic';
+  if (type === 'application/pdf') return 'pdf';
+  if (type === 'image/tiff') return 'tiff';
+  if (type === 'image/heic' || type === 'image/heif') return 'heic';
+  return EXTENSIONS[name.split('.').pop()?.toLowerCase() ?? ''] ?? 'image';
+}
+
+// Name for one page of an upload in notifications, e.g. 'scan.pdf page 2'. page is only set
+// for the pages of multi-page documents.
+export function pageName(name: string, page?: number): string {
+  return page === undefined ? name : `${name} page ${page + 1}`;
+}
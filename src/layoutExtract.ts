@@ -0,0 +1,171 @@
+import type { Page } from 'tesseract.js';
+import { Bbox, ExtractResult, OcrWord, emptyMatches, readValue } from './extractFields';
+import type { DocumentTemplate, TemplateField } from './templates';
+import { labelPattern, matchLabel } from './fuzzyLabel';
+
+interface LabelHit {
+  field: TemplateField;
+  alias: string;
+  distance: number;
+  bbox: Bbox;
+  words: OcrWord[];
+}
+
+// Each word's line is its index among the page's lines. Words point at the lines in the block
+// tree, page.lines only holds copies of them, so the lines are numbered walking the tree.
+export function toOcrWords(page: Page): OcrWord[] {
+  const lineIndex = new Map<object, number>();
+  (page.blocks ?? []).forEach(block => block.paragraphs.forEach(paragraph => paragraph.lines.forEach(line => lineIndex.set(line, lineIndex.size))));
+  return (page.words ?? []).map(word => ({
+    text: word.text,
+    confidence: word.confidence,
+    bbox: { x0: word.bbox.x0, y0: word.bbox.y0, x1: word.bbox.x1, y1: word.bbox.y1 },
+    line: lineIndex.get(word.line) ?? -1,
+  }));
+}
+
+function height(bbox: Bbox): number {
+  return Math.max(1, bbox.y1 - bbox.y0);
+}
+
+function centerX(bbox: Bbox): number {
+  return (bbox.x0 + bbox.x1) / 2;
+}
+
+export function unionBbox(bboxes: Bbox[]): Bbox {
+  return {
+    x0: Math.min(...bboxes.map(b => b.x0)),
+    y0: Math.min(...bboxes.map(b => b.y0)),
+    x1: Math.max(...bboxes.map(b => b.x1)),
+    y1: Math.max(...bboxes.map(b => b.y1)),
+  };
+}
+
+// Two boxes are on the same row when they overlap by at least half the smaller height
+function sameRow(a: Bbox, b: Bbox): boolean {
+  const overlap = Math.min(a.y1, b.y1) - Math.max(a.y0, b.y0);
+  return overlap >= Math.min(height(a), height(b)) * 0.5;
+}
+
+// Find label words (including multi-word aliases like 'DATE OF BIRTH'), fuzzy matched so
+// mangled labels still anchor their values. Closest alias wins, longest first on a tie.
+function findLabels(words: OcrWord[], template: DocumentTemplate): LabelHit[] {
+  const aliases = template.fields
+    .flatMap(field => field.aliases.map(alias => ({ field, wordCount: alias.split(/\s+/).length, alias })))
+    .sort((a, b) => b.wordCount - a.wordCount);
+  const used = new Set<OcrWord>();
+  const labels: LabelHit[] = [];
+
+  words.forEach((word, index) => {
+    if (used.has(word)) return;
+    let best: (LabelHit & { distance: number }) | null = null;
+    for (const { field, wordCount, alias } of aliases) {
+      const candidate = words.slice(index, index + wordCount);
+      if (candidate.length !== wordCount) continue;
+      if (candidate.some(w => w.line !== word.line || used.has(w))) continue;
+      const hit = matchLabel(candidate.map(w => w.text).join(' '), [alias], field.labelTolerance, words[index - 1]?.line !== word.line);
+      if (!hit || (best && hit.distance >= best.distance)) continue;
+      best = { field, alias, distance: hit.distance, words: candidate, bbox: unionBbox(candidate.map(w => w.bbox)) };
+    }
+    if (best) {
+      best.words.forEach(w => used.add(w));
+      labels.push(best);
+    }
+  });
+  return labels;
+}
+
+function isLabelWord(word: OcrWord, labels: LabelHit[]): boolean {
+  return labels.some(label => label.words.includes(word));
+}
+
+// Words on the same row after the label, up to the next label or a wide gap
+function wordsRightOf(label: LabelHit, words: OcrWord[], labels: LabelHit[]): OcrWord[] {
+  const stopAt = Math.min(...labels
+    .filter(other => other !== label && sameRow(other.bbox, label.bbox) && other.bbox.x0 > label.bbox.x0)
+    .map(other => other.bbox.x0));
+  const candidates = words
+    .filter(w => !isLabelWord(w, labels) && sameRow(w.bbox, label.bbox))
+    .filter(w => w.bbox.x0 >= label.bbox.x1 - 2 && w.bbox.x0 < stopAt)
+    .sort((a, b) => a.bbox.x0 - b.bbox.x0);
+
+  const maxGap = height(label.bbox) * 3;
+  const taken: OcrWord[] = [];
+  let lastX = label.bbox.x1;
+  for (const word of candidates) {
+    if (word.bbox.x0 - lastX > maxGap) break;
+    taken.push(word);
+    lastX = word.bbox.x1;
+  }
+  return taken;
+}
+
+// Words in the nearest row below the label, within the label's column.
+// The column runs from the label to the next label on the same row, so a header row of
+// DOR / ISSUE / VALID maps each date underneath to the right field.
+function wordsBelow(label: LabelHit, words: OcrWord[], labels: LabelHit[]): OcrWord[] {
+  const labelHeight = height(label.bbox);
+  const columnStart = label.bbox.x0 - labelHeight;
+  const columnEnd = Math.min(...labels
+    .filter(other => other !== label && sameRow(other.bbox, label.bbox) && other.bbox.x0 > label.bbox.x0)
+    .map(other => other.bbox.x0));
+
+  const candidates = words
+    .filter(w => !isLabelWord(w, labels))
+    .filter(w => w.bbox.y0 >= label.bbox.y1 - labelHeight * 0.25 && w.bbox.y0 - label.bbox.y1 <= labelHeight * 3)
+    .filter(w => centerX(w.bbox) >= columnStart && centerX(w.bbox) < columnEnd);
+  if (candidates.length === 0) return [];
+
+  const nearest = candidates.reduce((best, w) => (w.bbox.y0 < best.bbox.y0 ? w : best));
+  return candidates
+    .filter(w => sameRow(w.bbox, nearest.bbox))
+    .sort((a, b) => a.bbox.x0 - b.bbox.x0);
+}
+
+// The words covering a character range of the words joined with single spaces
+function wordsInRange(words: OcrWord[], start: number, end: number): OcrWord[] {
+  let offset = 0;
+  return words.filter(word => {
+    const wordStart = offset;
+    offset += word.text.length + 1;
+    return wordStart < end && wordStart + word.text.length > start;
+  });
+}
+
+// Layout-aware extractor: uses word geometry to find each value to the right of, or below, its label
+export function extractFieldsFromLayout(words: OcrWord[], template: DocumentTemplate): ExtractResult {
+  const matches = emptyMatches(template);
+  const labels = findLabels(words, template);
+
+  labels.forEach(label => {
+    const { field } = label;
+
+    const placements: Array<{ words: OcrWord[]; confidence: number; pattern: string }> = [
+      { words: wordsRightOf(label, words, labels), confidence: 0.95, pattern: `${field.key}-layout-right` },
+      { words: wordsBelow(label, words, labels), confidence: 0.9, pattern: `${field.key}-layout-below` },
+    ];
+
+    placements.forEach(placement => {
+      if (placement.words.length === 0) return;
+      const value = readValue(field, placement.words.map(w => w.text).join(' '));
+      if (!value) return;
+      const valueWords = wordsInRange(placement.words, value.start, value.end);
+      const line = valueWords[0].line;
+      matches[field.key].push({
+        ...value.match,
+        confidence: placement.confidence,
+        line,
+        pattern: labelPattern(placement.pattern, label),
+        position: line,
+        bbox: unionBbox(valueWords.map(w => w.bbox)),
+        label: { alias: label.alias, text: label.words.map(w => w.text).join(' '), distance: label.distance },
+      });
+    });
+  });
+
+  const success = template.fields
+    .filter(field => field.required)
+    .every(field => matches[field.key].length > 0);
+
+  return { success, matches };
+}
@@ -0,0 +1,60 @@
+// Clean-up of names as OCR'd from a card, e.g. "JASON VAN BEERS 6486549" → Jason | Van Beers
+
+export interface PersonName {
+  full: string;
+  given: string;
+  family: string;
+}
+
+// Surname particles and how they are written. They start the family name when they follow a given name.
+const PARTICLES: Record<string, string> = {
+  van: 'Van', von: 'von', de: 'de', der: 'der', den: 'den', da: 'da', di: 'di', du: 'du',
+  le: 'Le', la: 'La', mac: 'Mac', mc: 'Mc', st: 'St',
+};
+
+function isParticle(word: string): boolean {
+  return word.toLowerCase().replace(/\.$/, '') in PARTICLES;
+}
+
+// Only words OCR read in a single case are re-cased, so "McDonald" or "DeVries" are left alone
+function caseWord(word: string, first: boolean): string {
+  if (word !== word.toUpperCase() && word !== word.toLowerCase()) return word;
+  const lower = word.toLowerCase();
+  if (!first && lower in PARTICLES) return PARTICLES[lower];
+  return lower
+    .replace(/^mc(?=[a-z])/, 'mc_')
+    .replace(/(^|['_])([a-z])/g, (_, before: string, letter: string) => before + letter.toUpperCase())
+    .replace('_', '');
+}
+
+// Hyphenated names are cased part by part, e.g. TALBOT-VAN → Talbot-Van
+export function properCase(name: string): string {
+  return name
+    .split(' ')
+    .map((word, index) => word.split('-').map((part, partIndex) => caseWord(part, index === 0 && partIndex === 0)).join('-'))
+    .join(' ');
+}
+
+// Drop IDs, stray symbols and trailing specks OCR picked up around a name
+export function cleanName(raw: string): string {
+  const words = raw
+    .split(/\s+/)
+    .map(word => word.replace(/^[^A-Za-z]+|[^A-Za-z.]+$/g, ''))
+    .filter(word => word && !/\d/.test(word) && /[A-Za-z]/.test(word));
+  while (words.length > 1 && words[words.length - 1].replace(/\W/g, '').length <= 1) words.pop();
+  return words.join(' ');
+}
+
+// The family name starts at the first particle or hyphenated word after the given name,
+// otherwise it is the last word
+export function splitName(name: string): PersonName {
+  const words = name.split(' ').filter(Boolean);
+  if (words.length < 2) return { full: name, given: name, family: '' };
+  const familyStart = words.findIndex((word, index) => index > 0 && (isParticle(word) || word.includes('-')));
+  const split = familyStart > 0 ? familyStart : words.length - 1;
+  return { full: name, given: words.slice(0, split).join(' '), family: words.slice(split).join(' ') };
+}
+
+export function normalizeName(raw: string): PersonName {
+  return splitName(properCase(cleanName(raw)));
+}
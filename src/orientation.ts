@@ -0,0 +1,87 @@
+// Which way up a capture is: EXIF for uploads, then Tesseract OSD or the direction of the text lines
+
+// Clockwise rotation that makes the image upright
+export type Angle = 0 | 90 | 180 | 270;
+
+export interface ScanOrientation {
+  // Total rotation applied before OCR, EXIF included
+  angle: Angle;
+  // What found it; 'unavailable' when orientation detection couldn't run at all and the image
+  // was read as captured
+  source: 'exif' | 'osd' | 'text-lines' | 'unavailable';
+}
+
+// OSD orientation confidence below which the text-line check decides instead
+export const MIN_OSD_CONFIDENCE = 2;
+
+export function normalizeAngle(degrees: number): Angle {
+  return ((((Math.round(degrees / 90) * 90) % 360) + 360) % 360) as Angle;
+}
+
+// EXIF orientation tag (1-8) of a JPEG, 1 when there is none. Mirrored orientations are
+// treated as their rotation, a mirrored card is not something a camera produces.
+export function exifOrientation(buffer: ArrayBuffer): number {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    // APP1 holding "Exif\0\0"
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 10 > view.byteLength) return 1;
+        if (view.getUint16(entry, little) === 0x0112) return view.getUint16(entry + 8, little);
+      }
+      return 1;
+    }
+    if ((marker & 0xff00) !== 0xff00) return 1;
+    offset += 2 + length;
+  }
+  return 1;
+}
+
+export function exifAngle(orientation: number): Angle {
+  switch (orientation) {
+    case 3: case 4: return 180;
+    case 5: case 6: return 90;
+    case 7: case 8: return 270;
+    default: return 0;
+  }
+}
+
+// tesseract.js reports orientation_degrees as the clockwise rotation that makes the text upright,
+// Tesseract's "Rotate". Null when OSD found nothing or isn't sure.
+export function osdAngle(osd: { orientation_degrees: number | null; orientation_confidence: number | null }): Angle | null {
+  if (osd.orientation_degrees === null || (osd.orientation_confidence ?? 0) < MIN_OSD_CONFIDENCE) return null;
+  return normalizeAngle(osd.orientation_degrees);
+}
+
+// Lines of text make the ink in each row vary far more than the ink in each column. bin is one
+// byte per pixel with ink non-zero. 'vertical' means the text runs up or down the image.
+export function textLineAxis(bin: ArrayLike<number>, width: number, height: number): 'horizontal' | 'vertical' {
+  const rows = new Array<number>(height).fill(0);
+  const cols = new Array<number>(width).fill(0);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (bin[y * width + x]) {
+        rows[y]++;
+        cols[x]++;
+      }
+    }
+  }
+  return spread(rows) >= spread(cols) ? 'horizontal' : 'vertical';
+}
+
+// Coefficient of variation, so the longer side of the image doesn't count for more
+function spread(values: number[]): number {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  if (mean === 0) return 0;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance) / mean;
+}
@@ -0,0 +1,58 @@
+// Preprocessing steps a scan mode runs on the flattened card before OCR, in order.
+// The steps run in OpenCV, see runPipeline in imageOps.
+
+export type PreprocessStep =
+  // Resize to a width, keeping proportions
+  | { op: 'scale'; width: number }
+  | { op: 'grayscale' }
+  // kernel is odd, e.g. 3 or 5
+  | { op: 'denoise'; method: 'median' | 'gaussian'; kernel: number }
+  // Contrast-limited adaptive histogram equalization, evens out lighting across the card
+  | { op: 'clahe'; clipLimit: number; tileSize: number }
+  // Adaptive thresholds take an odd blockSize and the constant c subtracted from the local mean;
+  // otsu picks one threshold for the whole image
+  | { op: 'threshold'; method: 'adaptive-mean' | 'adaptive-gaussian'; blockSize: number; c: number }
+  | { op: 'threshold'; method: 'otsu' }
+  | { op: 'invert' }
+  // Unsharp mask: amount of the blurred image subtracted, radius of the blur
+  | { op: 'sharpen'; amount: number; radius: number }
+  // Share of the image to cut off each side, e.g. 0.02 to drop the card's rounded edges
+  | { op: 'crop'; top: number; right: number; bottom: number; left: number };
+
+// What preprocessImage has always done: grayscale, then an inverted adaptive mean threshold
+export const DEFAULT_PREPROCESS: PreprocessStep[] = [
+  { op: 'grayscale' },
+  { op: 'threshold', method: 'adaptive-mean', blockSize: 15, c: 10 },
+  { op: 'invert' },
+];
+
+// Label for the debug image after a step, e.g. "threshold adaptive-mean 15/10"
+export function describeStep(step: PreprocessStep): string {
+  switch (step.op) {
+    case 'scale': return `scale ${step.width}px`;
+    case 'denoise': return `denoise ${step.method} ${step.kernel}`;
+    case 'clahe': return `clahe ${step.clipLimit}/${step.tileSize}`;
+    case 'threshold': return step.method === 'otsu' ? 'threshold otsu' : `threshold ${step.method} ${step.blockSize}/${step.c}`;
+    case 'sharpen': return `sharpen ${step.amount}/${step.radius}`;
+    case 'crop': return `crop ${[step.top, step.right, step.bottom, step.left].join('/')}`;
+    default: return step.op;
+  }
+}
+
+// Pixel rectangle a crop step keeps
+export function cropRect(step: Extract<PreprocessStep, { op: 'crop' }>, width: number, height: number): { x: number; y: number; width: number; height: number } {
+  const x = Math.round(width * step.left);
+  const y = Math.round(height * step.top);
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.round(width * (1 - step.right)) - x),
+    height: Math.max(1, Math.round(height * (1 - step.bottom)) - y),
+  };
+}
+
+// Odd kernel and block sizes, as OpenCV requires
+export function oddSize(size: number): number {
+  const rounded = Math.max(1, Math.round(size));
+  return rounded % 2 === 0 ? rounded + 1 : rounded;
+}
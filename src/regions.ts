@@ -0,0 +1,85 @@
+import { FieldMatch, FieldMatches, readValue } from './extractFields';
+import type { DocumentTemplate, TemplateField } from './templates';
+
+// Region-of-interest OCR: a template can say where a field is printed on the flattened card, and
+// that patch is read on its own with only the characters the field can hold
+
+// Where a field is printed, as fractions (0-1) of the rectified card's width and height
+export interface FieldRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Pixel rectangle in the form tesseract.js takes for recognize's rectangle option
+export interface RegionRectangle {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Prior for a value read from its own region, above any whole-card rule: the patch only holds
+// that field and Tesseract could only read characters it can contain
+export const REGION_CONFIDENCE = 0.97;
+
+const DIGITS = '0123456789';
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+// Characters Tesseract may read for each type of field, '' for no restriction
+const TYPE_CHARSETS: Record<TemplateField['type'], string> = {
+  id: DIGITS,
+  name: `${LETTERS}-'`,
+  date: `${DIGITS}/`,
+  dateRange: `${DIGITS}/-`,
+  text: '',
+  address: '',
+};
+
+export function regionFields(template: DocumentTemplate): Array<TemplateField & { region: FieldRegion }> {
+  return template.fields.filter((field): field is TemplateField & { region: FieldRegion } => field.region !== undefined);
+}
+
+// tessedit_char_whitelist for a field's region. IDs with a letter prefix may also read its letters.
+export function regionCharset(field: TemplateField): string {
+  const prefixes = (field.idFormat?.prefixes ?? []).join('');
+  const letters = Array.from(new Set((prefixes.toUpperCase() + prefixes.toLowerCase()).split(''))).join('');
+  return TYPE_CHARSETS[field.type] + (field.type === 'id' ? letters : '');
+}
+
+// Clamped to the image, at least one pixel each way
+export function regionRectangle(region: FieldRegion, width: number, height: number): RegionRectangle {
+  const left = Math.min(width - 1, Math.max(0, Math.round(region.x * width)));
+  const top = Math.min(height - 1, Math.max(0, Math.round(region.y * height)));
+  return {
+    left,
+    top,
+    width: Math.max(1, Math.min(width - left, Math.round(region.width * width))),
+    height: Math.max(1, Math.min(height - top, Math.round(region.height * height))),
+  };
+}
+
+// The candidate read from a field's region, null when the text holds no value of its type.
+// bbox is the region, so scoreMatches weighs it by the region's own OCR words.
+export function regionMatch(field: TemplateField, text: string, rectangle: RegionRectangle): FieldMatch | null {
+  const found = readValue(field, text.replace(/\s+/g, ' ').trim());
+  if (!found) return null;
+  return {
+    ...found.match,
+    confidence: REGION_CONFIDENCE,
+    line: field.line ?? 0,
+    pattern: `${field.key}-region`,
+    bbox: { x0: rectangle.left, y0: rectangle.top, x1: rectangle.left + rectangle.width, y1: rectangle.top + rectangle.height },
+  };
+}
+
+// Region candidates keyed by field, for merging with the whole-card matches
+export function regionMatches(reads: Array<{ field: TemplateField; text: string; rectangle: RegionRectangle }>): FieldMatches {
+  const matches: FieldMatches = {};
+  reads.forEach(({ field, text, rectangle }) => {
+    const match = regionMatch(field, text, rectangle);
+    if (match) matches[field.key] = [...(matches[field.key] ?? []), match];
+  });
+  return matches;
+}
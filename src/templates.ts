@@ -0,0 +1,143 @@
+import { ExtractOptions, ExtractResult, LICENCE_ID_FORMAT, LICENCE_LABEL_ALIASES, extractFieldsV2, extractTemplateFields } from './extractFields';
+import type { DateKind } from './dates';
+import type { IdFormat } from './idFormat';
+import type { FieldRegion } from './regions';
+import { ValidationRule, dateBefore, matchesFormat, rangeLength } from './validateFields';
+
+export type FieldValueType = 'id' | 'name' | 'date' | 'dateRange' | 'text' | 'address';
+
+export interface TemplateField {
+  key: string;
+  label: string;
+  // Printed labels that introduce the value on the card, e.g. 'DOR' or 'DATE OF BIRTH'
+  aliases: string[];
+  // Unlabeled value patterns, the first capture group (or whole match) is the value
+  patterns: RegExp[];
+  type: FieldValueType;
+  required?: boolean;
+  // Max label edits as a fraction of the alias length, see fuzzyLabel
+  labelTolerance?: number;
+  // How two-digit years are read for date fields, defaults to 'issue'
+  dateKind?: DateKind;
+  // Holds several values, one per line, e.g. the dependants on a family licence
+  list?: boolean;
+  // Line the value is usually printed on, counting non-empty OCR lines from 0
+  line?: number;
+  // For id fields: only values that validate (after OCR corrections) are kept
+  idFormat?: IdFormat;
+  // Where the value is printed on the rectified card; the patch is OCR'd on its own, see regions
+  region?: FieldRegion;
+}
+
+export interface DocumentTemplate {
+  id: string;
+  name: string;
+  description: string;
+  // Words printed on every card of this type, used to detect the template from OCR text
+  keywords: string[];
+  fields: TemplateField[];
+  // Custom extractor for layouts the generic label/pattern rules can't handle
+  extract?: (text: string, template: DocumentTemplate, options?: ExtractOptions) => ExtractResult;
+  // Cross-field consistency checks, see validateMatches
+  rules?: ValidationRule[];
+}
+
+export const AUTO_TEMPLATE_ID = 'auto';
+
+const familySeasonLicence: DocumentTemplate = {
+  id: 'family_season_licence',
+  name: 'Family Season Licence',
+  description: 'Fish & Game family season licence',
+  keywords: ['FAMILY', 'SEASON', 'LICENCE', 'SPOUSE', 'PARTNER', 'DOR'],
+  fields: [
+    { key: 'id', label: 'ID', aliases: [], patterns: [], type: 'id', idFormat: LICENCE_ID_FORMAT, required: false, line: 2 },
+    { key: 'name', label: 'Name', aliases: LICENCE_LABEL_ALIASES.name, patterns: [], type: 'name', required: true, line: 2 },
+    { key: 'dor', label: 'DOR', aliases: LICENCE_LABEL_ALIASES.dor, patterns: [], type: 'date', dateKind: 'birth', required: true, line: 3 },
+    { key: 'issue', label: 'Issue', aliases: LICENCE_LABEL_ALIASES.issue, patterns: [], type: 'date', required: true, line: 3 },
+    { key: 'valid', label: 'Valid', aliases: LICENCE_LABEL_ALIASES.valid, patterns: [], type: 'dateRange', required: true, line: 3 },
+    { key: 'spousePartner', label: 'Partner', aliases: LICENCE_LABEL_ALIASES.spousePartner, patterns: [], type: 'name', line: 5 },
+    { key: 'address', label: 'Address', aliases: LICENCE_LABEL_ALIASES.address, patterns: [], type: 'address', line: 4 },
+    { key: 'other', label: 'Other', aliases: LICENCE_LABEL_ALIASES.other, patterns: [], type: 'text', list: true },
+  ],
+  extract: extractFieldsV2,
+  rules: [
+    dateBefore('dor-after-issue', 'dor', 'issue'),
+    dateBefore('issue-after-valid', 'issue', 'valid', true),
+    rangeLength('valid-not-season', 'valid', 300, 400),
+    matchesFormat('id-format', 'id', /^\d{6,8}$/, '6-8 digits'),
+  ],
+};
+
+const membershipCard: DocumentTemplate = {
+  id: 'membership_card',
+  name: 'Membership Card',
+  description: 'Club or association membership card',
+  keywords: ['MEMBER', 'MEMBERSHIP', 'EXPIRES', 'EXPIRY'],
+  fields: [
+    { key: 'memberNumber', label: 'Member #', aliases: ['MEMBER NO', 'MEMBER NUMBER', 'MEMBERSHIP NO', 'NO'], patterns: [/\b([A-Z]{0,2}\d{5,8})\b/], type: 'id', required: true },
+    { key: 'name', label: 'Name', aliases: ['NAME', 'MEMBER'], patterns: [], type: 'name', required: true },
+    { key: 'expiry', label: 'Expiry', aliases: ['EXPIRES', 'EXPIRY', 'VALID TO', 'VALID UNTIL'], patterns: [], type: 'date', required: true },
+    { key: 'class', label: 'Class', aliases: ['CLASS', 'TYPE', 'GRADE'], patterns: [], type: 'text' },
+  ],
+};
+
+const permit: DocumentTemplate = {
+  id: 'permit',
+  name: 'Permit',
+  description: 'Access or activity permit',
+  keywords: ['PERMIT', 'HOLDER', 'EXPIRES', 'CONDITIONS'],
+  fields: [
+    { key: 'permitNumber', label: 'Permit #', aliases: ['PERMIT NO', 'PERMIT NUMBER', 'PERMIT'], patterns: [], type: 'id', required: true },
+    { key: 'name', label: 'Holder', aliases: ['HOLDER', 'NAME', 'PERMIT HOLDER'], patterns: [], type: 'name', required: true },
+    { key: 'issue', label: 'Issue', aliases: ['ISSUE', 'ISSUED', 'DATE ISSUED'], patterns: [], type: 'date' },
+    { key: 'expiry', label: 'Expiry', aliases: ['EXPIRES', 'EXPIRY', 'VALID TO'], patterns: [], type: 'date', required: true },
+    { key: 'area', label: 'Area', aliases: ['AREA', 'LOCATION', 'BLOCK'], patterns: [], type: 'text' },
+  ],
+  rules: [
+    dateBefore('issue-after-expiry', 'issue', 'expiry'),
+  ],
+};
+
+const templates: DocumentTemplate[] = [familySeasonLicence, membershipCard, permit];
+
+export function getTemplates(): DocumentTemplate[] {
+  return templates;
+}
+
+export function getTemplate(id: string): DocumentTemplate | undefined {
+  return templates.find(template => template.id === id);
+}
+
+// Add (or replace) a template so other card types can be scanned without touching the extractor
+export function registerTemplate(template: DocumentTemplate): void {
+  const existing = templates.findIndex(t => t.id === template.id);
+  if (existing >= 0) {
+    templates[existing] = template;
+  } else {
+    templates.push(template);
+  }
+}
+
+// Score each template by how many of its keywords and field labels appear in the text, best first
+export function scoreTemplates(text: string): Array<{ template: DocumentTemplate; score: number }> {
+  const upper = text.toUpperCase();
+  const words = new Set(upper.split(/[^A-Z0-9\/]+/).filter(Boolean));
+  const scored = templates.map(template => {
+    const keywordHits = template.keywords.filter(keyword => words.has(keyword)).length;
+    const labelHits = template.fields
+      .flatMap(field => field.aliases)
+      .filter(alias => upper.includes(alias))
+      .length;
+    return { template, score: keywordHits * 2 + labelHits };
+  });
+  return scored.sort((a, b) => b.score - a.score);
+}
+
+export function detectTemplate(text: string): DocumentTemplate {
+  const [best] = scoreTemplates(text);
+  return best?.score > 0 ? best.template : templates[0];
+}
+
+export function extractWithTemplate(text: string, template: DocumentTemplate, options?: ExtractOptions): ExtractResult {
+  return template.extract ? template.extract(text, template, options) : extractTemplateFields(text, template, options);
+}
@@ -0,0 +1,65 @@
+import type { FieldMatch, FieldMatches } from './extractFields';
+
+// A rule that produced a candidate
+export interface TraceRule {
+  field: string;
+  pattern: string;
+  value: string;
+  confidence: number;
+}
+
+// A rule that looked at a line and passed on it
+export interface TraceRejection {
+  rule: string;
+  reason: string;
+}
+
+export interface TraceLine {
+  line: number;
+  text: string;
+  fired: TraceRule[];
+  rejected: TraceRejection[];
+}
+
+// Why extraction read a scan the way it did, so a wrong field can be diagnosed on the device
+export interface ExtractionTrace {
+  // Decisions about the scan as a whole: OCR mode and confidence, template detection...
+  notes: string[];
+  lines: TraceLine[];
+  // The candidate that won each field, null when nothing was found
+  winners: Record<string, TraceRule | null>;
+}
+
+function toRule(field: string, match: FieldMatch): TraceRule {
+  return { field, pattern: match.pattern, value: match.value, confidence: match.confidence };
+}
+
+export function createTrace(lines: string[]): ExtractionTrace {
+  return {
+    notes: [],
+    lines: lines.map((text, line) => ({ line, text, fired: [], rejected: [] })),
+    winners: {},
+  };
+}
+
+// No-op without a trace, so extractors can call it unconditionally
+export function reject(trace: ExtractionTrace | undefined, line: number, rule: string, reason: string): void {
+  trace?.lines[line]?.rejected.push({ rule, reason });
+}
+
+export function withWinners(trace: ExtractionTrace, matches: FieldMatches): ExtractionTrace {
+  const winners = Object.fromEntries(Object.entries(matches).map(([field, fieldMatches]) => {
+    const best = fieldMatches.reduce<FieldMatch | null>((top, m) => (!top || m.confidence > top.confidence ? m : top), null);
+    return [field, best ? toRule(field, best) : null];
+  }));
+  return { ...trace, winners };
+}
+
+// Fill in the rules that fired on each line, and each field's winner, from an extractor's matches
+export function finishTrace(trace: ExtractionTrace, matches: FieldMatches): ExtractionTrace {
+  const lines = trace.lines.map(line => ({ ...line, fired: [] as TraceRule[] }));
+  Object.entries(matches).forEach(([field, fieldMatches]) => {
+    fieldMatches.forEach(m => lines[m.line]?.fired.push(toRule(field, m)));
+  });
+  return withWinners({ ...trace, lines }, matches);
+}
@@ -1,297 +1,414 @@
-import type { Worker as TesseractWorker } from 'tesseract.js';
-import cv, { Mat, MatVector, Point, Size } from 'opencv-ts';
+import type { LoggerMessage, Worker as TesseractWorker } from 'tesseract.js';
 
 import React, { useCallback, useEffect, useState } from 'react';
-import { createWorker, PSM } from 'tesseract.js';
+import { createWorker, OEM, PSM } from 'tesseract.js';
 import Webcam from 'react-webcam';
+import { FieldMatches, OcrWord, emptyMatches, listItems, mergeMatches, textLines } from './extractFields';
+import { scoreMatches } from './confidence';
+import { PersonName, normalizeName } from './names';
+import { PostalAddress, parseAddress } from './address';
+import { extractFieldsFromLayout, toOcrWords } from './layoutExtract';
+import { ScanWarning, validateMatches } from './validateFields';
+import { AUTO_TEMPLATE_ID, DocumentTemplate, detectTemplate, extractWithTemplate, getTemplate, scoreTemplates } from './templates';
+import { ExtractionTrace, createTrace, withWinners } from './trace';
+import { poolFrame, voteMatches } from './consensus';
+import { ImageQuality } from './imageQuality';
+import { DEFAULT_PREPROCESS, describeStep } from './pipeline';
+import { AUTO_BEST, PassScore, fromPass, passesValidation, scorePass, withOtherPasses } from './bestPass';
+import { Angle, ScanOrientation, exifAngle, exifOrientation, normalizeAngle, osdAngle } from './orientation';
+import { AutoCaptureState, LiveFrame, initialAutoCapture, nextAutoCapture } from './autoCapture';
+import { detectInputFormat, pageName } from './inputFormat';
+import { WorkerPool, createPool, createSequencer, poolSize } from './workerPool';
+import { ImageSize, encodeWithin, fitWithin, imageDimensions } from './imageSize';
+import { regionCharset, regionFields, regionMatches, regionRectangle } from './regions';
+import { CardFraming, Quad, cardFraming } from './cardQuad';
+import type { CreateSurface, DebugImage, ImageClient } from './imageJobs';
+import { createImageClient } from './imageClient';
+import { WorkerType, assetUrl, workerShim } from './workerUrl';
+import { BUNDLE_URL } from './env';
 
 
 let VERSION = "0.49"
 
-interface FieldMatch {
-  value: string;
-  confidence: number;
-  line: number;
-  pattern: string;
-  position?: number;
+export { extractFieldsV2 } from './extractFields';
+export type { Bbox, FieldMatch, FieldMatches, ListItem, OcrWord } from './extractFields';
+export type { ScanWarning } from './validateFields';
+export type { ExtractionTrace } from './trace';
+export type { PersonName } from './names';
+export type { PostalAddress } from './address';
+export type { CardFraming, Quad } from './cardQuad';
+export type { ImageQuality } from './imageQuality';
+export type { PreprocessStep } from './pipeline';
+export type { Angle, ScanOrientation } from './orientation';
+
+// List fields keep one entry per item (e.g. per dependant) in items, and value has them one per line
+export type FieldWithLock = { value: string; locked: boolean; items?: FieldWithLock[] };
+// Keyed by the scan template's field keys
+export type ScanFields = Record<string, FieldWithLock>;
+
+export function emptyFields(template: DocumentTemplate | undefined): ScanFields {
+  if (!template) return {};
+  return Object.fromEntries(template.fields.map(field => [
+    field.key,
+    field.list ? { value: '', locked: false, items: [] } : { value: '', locked: false }
+  ]));
 }
 
-export interface FieldMatches {
-  id: FieldMatch[];
-  name: FieldMatch[];
-  dor: FieldMatch[];
-  issue: FieldMatch[];
-  valid: FieldMatch[];
-  spousePartner: FieldMatch[];
-  other: FieldMatch[];
+// Items of a list field from its candidates. Locked items stay where they are.
+function bestItems(fieldMatches: FieldMatches[string], prevItems: FieldWithLock[]): FieldWithLock[] {
+  const items: FieldWithLock[] = listItems(fieldMatches).map(item => ({ value: item.value, locked: false }));
+  prevItems.forEach((prev, index) => {
+    if (prev.locked) items[index] = prev;
+  });
+  return Array.from(items, item => item ?? { value: '', locked: false });
 }
 
+// Best candidate for each field, keeping whatever the user has locked
+function bestFields(template: DocumentTemplate, matches: FieldMatches, prevFields: ScanFields): ScanFields {
+  return Object.fromEntries(template.fields.map(({ key, list }) => {
+    if (prevFields[key]?.locked) return [key, prevFields[key]];
+    if (!list) return [key, { value: matches[key]?.[0]?.value ?? '', locked: false }];
+    const items = bestItems(matches[key] ?? [], prevFields[key]?.items ?? []);
+    return [key, { value: items.map(item => item.value).join('\n'), locked: false, items }];
+  }));
+}
 
-function isValidDate(dateStr: string): boolean {
-  const date = new Date(dateStr);
-  return !isNaN(date.getTime());
+function nameParts(template: DocumentTemplate, fields: ScanFields): Record<string, PersonName> {
+  return Object.fromEntries(template.fields
+    .filter(field => field.type === 'name' && !field.list && fields[field.key]?.value)
+    .map(field => [field.key, normalizeName(fields[field.key].value)]));
 }
 
-function normalizeDate(dateStr: string): string {
-  // Handle various date formats and normalize to DD/MM/YYYY
-  const parts = dateStr.split(/[\/\-]/);
-  if (parts.length === 3) {
-    const [day, month, year] = parts;
-    // Handle single digit days/months and remove any non-digit characters
-    const normalizedDay = day.replace(/[^\d]/g, '').padStart(2, '0');
-    const normalizedMonth = month.padStart(2, '0');
-    const fullYear = year.length === 2 ? `20${year}` : year;
-    return `${normalizedDay}/${normalizedMonth}/${fullYear}`;
-  }
-  return dateStr;
+function addressParts(template: DocumentTemplate, fields: ScanFields): Record<string, PostalAddress> {
+  return Object.fromEntries(template.fields
+    .filter(field => field.type === 'address' && !field.list && fields[field.key]?.value)
+    .map(field => [field.key, parseAddress(fields[field.key].value)]));
+}
+
+// Fuse another capture of the same card into a scan: pool its candidates with the earlier
+// frames, vote, re-validate and refill the unlocked fields
+function fuseFrame(scan: Scan, frameMatches: FieldMatches): Scan {
+  const template = getTemplate(scan.templateId);
+  if (!template) return scan;
+  const frames = scan.frames ?? 1;
+  const pool = poolFrame(scan.pool ?? poolFrame({}, scan.matches, 0), frameMatches, frames);
+  const { matches, warnings } = validateMatches(voteMatches(pool), template);
+  const trace = scan.trace && withWinners(
+    { ...scan.trace, notes: [...scan.trace.notes, `Fused capture ${frames + 1}, ${warnings.length} warning(s) after voting`] },
+    matches
+  );
+  const fields = bestFields(template, matches, scan.fields);
+  return {
+    ...scan,
+    trace,
+    fields,
+    names: nameParts(template, fields),
+    addresses: addressParts(template, fields),
+    matches,
+    warnings,
+    pool,
+    frames: frames + 1,
+  };
+}
+
+function loadImage(dataUrl: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new window.Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not load image'));
+    img.src = dataUrl;
+  });
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
 }
 
-function calculatePositionConfidence(position: number, expectedPosition: number): number {
-  const distance = Math.abs(position - expectedPosition);
-  return Math.max(0, 1 - (distance * 0.1)); // Decrease confidence by 0.1 for each position away
+async function dataUrlBlob(dataUrl: string): Promise<Blob> {
+  return (await fetch(dataUrl)).blob();
 }
 
-export function extractFieldsV2(text: string): { success: boolean; matches: FieldMatches } {
-  const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
-  const matches: FieldMatches = {
-    id: [],
-    name: [],
-    dor: [],
-    issue: [],
-    valid: [],
-    spousePartner: [],
-    other: []
+const domSurface: CreateSurface = (width, height) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('No 2d canvas context');
+  return {
+    context,
+    encode: (type, quality) => new Promise((resolve, reject) => canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode image'))), type, quality)),
   };
+};
 
-  // First pass: Find all potential matches
-  lines.forEach((line, lineNum) => {
-    // Handle ID
-    const idMatch = line.match(/\b\d{6,8}\b/);
-    if (idMatch) {
-      matches.id.push({
-        value: idMatch[0],
-        confidence: 1.0,
-        line: lineNum,
-        pattern: 'id-pattern',
-        position: lineNum
-      });
-    }
+// A worker built next to the bundle, by URL. From a same-origin blob when the bundle is served
+// from elsewhere than the page embedding it, see workerShim.
+const workerUrls = new Map<string, string>();
+function workerScript(src: string, type: WorkerType): string {
+  let url = workerUrls.get(src);
+  if (!url) {
+    const script = assetUrl(src, BUNDLE_URL, document.baseURI);
+    const shim = workerShim(script, window.location.origin, type);
+    url = shim === null ? script : URL.createObjectURL(new Blob([shim], { type: 'text/javascript' }));
+    workerUrls.set(src, url);
+  }
+  return url;
+}
 
-    // Handle Name
-    const nameMatch = line.match(/NAME[\s:]+([A-Za-z .-]+)(?:\n|$)/i) ||
-                     line.match(/^([A-Za-z .-]+)\s+\d{6,8}$/);
-    if (nameMatch && !line.match(/^(NAME|DOR|ISSUE|VALID|SPOUSE\/PARTNER|OTHER|Licence)\s*$/i)) {
-      matches.name.push({
-        value: nameMatch[1]?.trim() ?? nameMatch[0],
-        confidence: nameMatch[0].startsWith('NAME') ? 1.0 : 0.9,
-        line: lineNum,
-        pattern: 'name-pattern',
-        position: lineNum
-      });
-    }
+// Runs image jobs on the page. OpenCV is only loaded, as a chunk of its own, the first time one runs.
+const pageImageClient: ImageClient = {
+  request: async (type, job) => (await import('./imageJobs')).runImageJob(type, job, domSurface),
+};
 
-    // Check for name on next line after NAME label
-    if (line.match(/^NAME\s*$/i) && lineNum + 1 < lines.length) {
-      const nextLine = lines[lineNum + 1];
-      const nameOnNextLine = nextLine.match(/^([A-Za-z .-]+)(?:\s+\d{6,8})?$/);
-      if (nameOnNextLine && !nextLine.match(/^(NAME|DOR|ISSUE|VALID|SPOUSE\/PARTNER|OTHER|Licence)\s*$/i)) {
-        matches.name.push({
-          value: nameOnNextLine[1].trim(),
-          confidence: 0.95,
-          line: lineNum + 1,
-          pattern: 'name-next-line',
-          position: lineNum + 1
-        });
-      }
+// OpenCV and preprocessing run in the image worker, so the camera view stays smooth while they
+// do. Browsers without OffscreenCanvas, or where the worker won't start, run them on the page.
+function createImageProcessor(): ImageClient {
+  const local = pageImageClient;
+  const offscreen = typeof OffscreenCanvas !== 'undefined' && (() => {
+    try {
+      return new OffscreenCanvas(1, 1).getContext('2d') !== null;
+    } catch (error) {
+      return false;
     }
+  })();
+  if (typeof Worker === 'undefined' || !offscreen) return local;
+  try {
+    return createImageClient(new Worker(workerScript(CONFIG.image.workerSrc, 'classic')), local);
+  } catch (error) {
+    console.warn('[imageWorker] Could not start, running image jobs on the page', error);
+    return local;
+  }
+}
 
-    // Handle Spouse/Partner
-    const spouseMatch = line.match(/SPOUSE\/PARTNER[\s:]+([A-Za-z .-]+)(?:\n|$)/i) ||
-                       line.match(/^([A-Za-z .-]+)(?:\s+Rd|\s+Street|\s+Avenue|\s+Road)/i);
-    if (spouseMatch) {
-      matches.spousePartner.push({
-        value: spouseMatch[1]?.trim() ?? spouseMatch[0],
-        confidence: spouseMatch[0].toLowerCase().includes('spouse') ? 1.0 : 0.8,
-        line: lineNum,
-        pattern: 'spouse-pattern',
-        position: lineNum
-      });
-    }
+// One page of an upload, decoded upright
+interface DecodedPage {
+  dataUrl: string;
+  // EXIF rotation applied while decoding it
+  exif: Angle;
+  // Index of the page in a multi-page PDF or TIFF
+  page?: number;
+}
 
-    // Handle labeled dates first
-    if (line.match(/\bDOR\b/i)) {
-      const dateMatch = line.match(/\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4}/);
-      if (dateMatch) {
-        matches.dor.push({
-          value: normalizeDate(dateMatch[0]),
-          confidence: 1.0,
-          line: lineNum,
-          pattern: 'dor-labeled',
-          position: lineNum
-        });
-      }
-    }
-    if (line.match(/\bISSUE[D]?\b/i)) {
-      const dateMatch = line.match(/\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4}/);
-      if (dateMatch) {
-        matches.issue.push({
-          value: normalizeDate(dateMatch[0]),
-          confidence: 1.0,
-          line: lineNum,
-          pattern: 'issue-labeled',
-          position: lineNum
-        });
-      }
-    }
-    if (line.match(/\bVALID\b/i)) {
-      const dateMatch = line.match(/\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4}/);
-      if (dateMatch) {
-        matches.valid.push({
-          value: normalizeDate(dateMatch[0]),
-          confidence: 1.0,
-          line: lineNum,
-          pattern: 'valid-labeled',
-          position: lineNum
-        });
-      }
-    }
+function canvasPage(canvas: HTMLCanvasElement, exif: Angle, page?: number): DecodedPage {
+  return { dataUrl: canvas.toDataURL('image/jpeg'), exif, ...(page === undefined ? {} : { page }) };
+}
 
-    // Handle unlabeled dates
-    const dates = line.match(/\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4}/g);
-    if (dates) {
-      // First check for a range pattern
-      const rangeMatch = line.match(/(\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})\s*[-–]\s*(\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})/);
-      let validValue = '';
-      
-      if (rangeMatch) {
-        validValue = `${normalizeDate(rangeMatch[1])} - ${normalizeDate(rangeMatch[2])}`;
-        matches.valid.push({
-          value: validValue,
-          confidence: 0.95,
-          line: lineNum,
-          pattern: 'valid-range',
-          position: lineNum
-        });
-        // Remove the range dates from the array
-        const rangeDates = [rangeMatch[1], rangeMatch[2]];
-        const remainingDates = dates.filter(d => !rangeDates.includes(d));
-        
-        // If we have exactly 2 remaining dates, they are likely DOR and ISSUE
-        if (remainingDates.length === 2) {
-          const sortedDates = remainingDates
-            .map(d => ({ date: d, timestamp: new Date(normalizeDate(d)).getTime() }))
-            .sort((a, b) => a.timestamp - b.timestamp);
-          
-          matches.dor.push({
-            value: normalizeDate(sortedDates[0].date),
-            confidence: 0.9,
-            line: lineNum,
-            pattern: 'dor-with-range',
-            position: lineNum
-          });
-          
-          matches.issue.push({
-            value: normalizeDate(sortedDates[1].date),
-            confidence: 0.85,
-            line: lineNum,
-            pattern: 'issue-with-range',
-            position: lineNum
-          });
-        }
-      } else if (dates.length === 3) {
-        // If no range pattern but we have 3 dates, handle as before
-        const sortedDates = dates
-          .map(d => ({ date: d, timestamp: new Date(normalizeDate(d)).getTime() }))
-          .sort((a, b) => a.timestamp - b.timestamp);
-        
-        matches.dor.push({
-          value: normalizeDate(sortedDates[0].date),
-          confidence: 0.9,
-          line: lineNum,
-          pattern: 'dor-position-oldest',
-          position: lineNum
-        });
-        
-        matches.issue.push({
-          value: normalizeDate(sortedDates[1].date),
-          confidence: 0.85,
-          line: lineNum,
-          pattern: 'issue-position-middle',
-          position: lineNum
-        });
-        
-        if (!validValue) {
-          matches.valid.push({
-            value: normalizeDate(sortedDates[2].date),
-            confidence: 0.8,
-            line: lineNum,
-            pattern: 'valid-position-newest',
-            position: lineNum
-          });
-        }
-      } else if (dates.length === 1) {
-        // Single unlabeled date - check if it's near name or ID
-        const dateValue = normalizeDate(dates[0]);
-        const dateTimestamp = new Date(dateValue).getTime();
-        const now = Date.now();
-        const yearsDiff = (now - dateTimestamp) / (1000 * 60 * 60 * 24 * 365);
-        
-        if (yearsDiff > 18 && yearsDiff < 100) {
-          // Likely a DOR if it's a reasonable age
-          matches.dor.push({
-            value: dateValue,
-            confidence: 0.8,
-            line: lineNum,
-            pattern: 'dor-age-range',
-            position: lineNum
-          });
-        }
-      }
+// A canvas holding source scaled down so its longer side is at most CONFIG.image.uploadMaxSide
+function fittedCanvas(source: CanvasImageSource, size: ImageSize): HTMLCanvasElement {
+  const fitted = fitWithin(size, CONFIG.image.uploadMaxSide);
+  const canvas = document.createElement('canvas');
+  canvas.width = fitted.width;
+  canvas.height = fitted.height;
+  canvas.getContext('2d')?.drawImage(source, 0, 0, fitted.width, fitted.height);
+  return canvas;
+}
+
+// stored: the size in the file's header, when known, so the browser can decode straight to the
+// smaller size instead of holding the full image first
+async function bitmapPage(blob: Blob, exif: Angle, stored: ImageSize | null = null): Promise<DecodedPage> {
+  const upright = stored && (exif === 90 || exif === 270) ? { width: stored.height, height: stored.width } : stored;
+  const fitted = upright && fitWithin(upright, CONFIG.image.uploadMaxSide);
+  const bitmap = await createImageBitmap(blob, {
+    imageOrientation: 'from-image',
+    ...(fitted ? { resizeWidth: fitted.width, resizeHeight: fitted.height, resizeQuality: 'high' as const } : {}),
+  });
+  const canvas = fittedCanvas(bitmap, bitmap);
+  bitmap.close();
+  return canvasPage(canvas, exif);
+}
+
+// Every page of a PDF, rendered at CONFIG.image.pdfDpi unless that makes it larger than
+// CONFIG.image.uploadMaxSide. pdf.js is only loaded when a PDF comes in.
+async function readPdf(buffer: ArrayBuffer): Promise<DecodedPage[]> {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = workerScript(CONFIG.image.pdfWorkerSrc, 'module');
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(buffer) }).promise;
+  const pages: DecodedPage[] = [];
+  try {
+    for (let index = 0; index < pdf.numPages; index++) {
+      const page = await pdf.getPage(index + 1);
+      const points = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: Math.min(CONFIG.image.pdfDpi / 72, CONFIG.image.uploadMaxSide / Math.max(points.width, points.height)) });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(viewport.width);
+      canvas.height = Math.round(viewport.height);
+      const context = canvas.getContext('2d');
+      if (!context) throw new Error('No 2d context to render the PDF into');
+      await page.render({ canvasContext: context, viewport }).promise;
+      pages.push(canvasPage(canvas, 0, pdf.numPages > 1 ? index : undefined));
+      page.cleanup();
     }
+  } finally {
+    await pdf.destroy();
+  }
+  return pages;
+}
+
+// Every page of a TIFF, skipping reduced-resolution copies (thumbnails)
+async function readTiff(buffer: ArrayBuffer): Promise<DecodedPage[]> {
+  const UTIF = await import('utif');
+  const ifds = UTIF.decode(buffer).filter(ifd => ((ifd.t254 as number[] | undefined)?.[0] ?? 0) % 2 === 0);
+  return ifds.map((ifd, index) => {
+    UTIF.decodeImage(buffer, ifd);
+    const full = document.createElement('canvas');
+    full.width = ifd.width;
+    full.height = ifd.height;
+    full.getContext('2d')?.putImageData(new ImageData(new Uint8ClampedArray(UTIF.toRGBA8(ifd)), ifd.width, ifd.height), 0, 0);
+    // Let go of the decoded pixels before the next page
+    ifd.data = new Uint8Array(0);
+    return canvasPage(fittedCanvas(full, full), 0, ifds.length > 1 ? index : undefined);
   });
+}
 
-  return { success: true, matches: matches };
+// Safari decodes HEIC itself; elsewhere libheif (through heic2any) converts it to JPEG first
+async function readHeic(file: File): Promise<DecodedPage> {
+  try {
+    return await bitmapPage(file, 0);
+  } catch {
+    const { default: heic2any } = await import('heic2any');
+    const converted = await heic2any({ blob: file, toType: 'image/jpeg' });
+    return bitmapPage(Array.isArray(converted) ? converted[0] : converted, 0);
+  }
 }
 
-export type FieldWithLock = { value: string; locked: boolean };
-export type LicenceFieldsWithLock = {
-  id: FieldWithLock;
-  name: FieldWithLock;
-  dor: FieldWithLock;
-  issue: FieldWithLock;
-  valid: FieldWithLock;
-  spousePartner: FieldWithLock;
-  other: FieldWithLock;
-  createdAt: number;
-};
+// Decode an upload upright, one page per page of a PDF or multi-page TIFF, entirely in the browser.
+// Images have their EXIF orientation applied, and each page says what that was.
+async function readUpload(file: File): Promise<DecodedPage[]> {
+  const buffer = await file.arrayBuffer();
+  switch (detectInputFormat(new Uint8Array(buffer, 0, Math.min(16, buffer.byteLength)), file.type, file.name)) {
+    case 'pdf': return readPdf(buffer);
+    case 'tiff': return readTiff(buffer);
+    case 'heic': return [await readHeic(file)];
+    default: return [await bitmapPage(file, exifAngle(exifOrientation(buffer)), imageDimensions(buffer))];
+  }
+}
+
+// A capture ready to queue: the thresholded image, how good the photo was and what it was made from
+interface PreprocessedImage {
+  image: string;
+  quality: ImageQuality;
+  orientation: ScanOrientation;
+  rectified: boolean;
+  original: ScanOriginal;
+  pipeline: ScanPipeline;
+  // Which page of a multi-page upload it came from
+  page?: number;
+}
+
+// The capture as taken, before preprocessing. exif is the rotation already applied decoding an upload.
+export interface ScanOriginal {
+  image: string;
+  exif: Angle;
+}
+
+// How a scan's image was made from its original
+export interface ScanPipeline {
+  // Scan mode whose preprocessing made the image and whose OCR settings read it
+  mode: string;
+  // Its preprocessing steps, see describeStep
+  steps: string[];
+}
+
+// A result a scan had before it was reprocessed
+export type ScanHistoryEntry = Pick<Scan, 'pipeline' | 'templateId' | 'ocrText' | 'fields' | 'matches' | 'warnings'> & { replacedAt: number };
+
+// The card found in the latest camera frame, in video pixels
+export interface CardOutline {
+  quad: Quad | null;
+  framing: CardFraming;
+  width: number;
+  height: number;
+}
 
 export interface Scan {
     id: string;
     image: string;
     ocrText: string;
-    fields: LicenceFieldsWithLock;
+    // Word text, confidence and position from the OCR result
+    words?: OcrWord[];
+    // Template id, or AUTO_TEMPLATE_ID until the template is detected from the OCR text
+    templateId: string;
+    fields: ScanFields;
     matches: FieldMatches;
+    // Cross-field consistency problems found after extraction
+    warnings?: ScanWarning[];
     createdAt: number;
     status?: 'queued' | 'processing' | 'completed' | 'error';
+    // Rescan mode: the scan this capture is fused into once processed
+    mergeInto?: string;
+    // Every candidate from every capture fused into this scan, and how many captures that is
+    pool?: FieldMatches;
+    frames?: number;
+    // Why each field was read the way it was, shown in the debug panel
+    trace?: ExtractionTrace;
+    // Given and family parts of each name field, keyed by field
+    names?: Record<string, PersonName>;
+    // Street, rural delivery, town and postcode of each address field, keyed by field
+    addresses?: Record<string, PostalAddress>;
+    // Sharpness, glare and exposure of the capture, measured before it was queued
+    quality?: ImageQuality;
+    // How far the capture was turned to read it upright, and what found that
+    orientation?: ScanOrientation;
+    // Whether the image is the flattened, upright card, so template field regions line up with it
+    rectified?: boolean;
+    // Index of the page it was read from, for the pages of a multi-page PDF or TIFF
+    page?: number;
+    // Kept so the scan can be reprocessed with another mode
+    original?: ScanOriginal;
+    pipeline?: ScanPipeline;
+    // Earlier results, oldest first, one per reprocess
+    history?: ScanHistoryEntry[];
 }
 
-export const LOCALE = 'en-NZ'
+export { LOCALE } from './env';
 
 export const CONFIG = {
   storage: {
     maxItems: 20,
     retentionDays: 30,
   },
+  // Batch OCR workers, see poolSize; the live preview has a worker of its own
+  ocr: {
+    maxWorkers: 4,
+  },
   image: {
-    maxSize: 1024 * 1024, // 1MB
-    maxStoredSize: 200 * 1024, // 200KB
+    // Uploads above this are skipped, anything smaller is downscaled as it is decoded
+    maxSize: 40 * 1024 * 1024, // 40MB
+    // Longest side an upload is decoded at: plenty for OCR of a card in the photo, and a batch
+    // of 12MP photos stays within a phone's memory
+    uploadMaxSide: 2400,
+    maxStoredSize: 200 * 1024, // 200KB, decoded
     compressedWidth: 800,
     jpegQuality: 1,
+    // Lowest quality compressImage goes down to when fitting maxStoredSize
+    minJpegQuality: 0.3,
+    // Width the detected card is warped to, its height follows from the card's proportions
+    cardWidth: 1280,
+    // Resolution PDF pages are rendered at before looking for the card on them
+    pdfDpi: 200,
+    // pdf.js worker, copied next to index.js by the build and loaded relative to it
+    pdfWorkerSrc: 'pdf.worker.min.mjs',
+    // Image worker bundle, built next to index.js and loaded relative to it
+    workerSrc: 'imageWorker.js',
   },
+  // Card outline drawn over the camera view while framing a shot
+  cardOutline: {
+    pollMs: 250,
+    // Frames are downscaled to this width to keep detection cheap
+    width: 480,
+    // Smaller than the preprocessor accepts, so a card held too far away is still outlined
+    minArea: 0.03,
+  },
+  // preprocess: steps run on the flattened card before OCR, see PreprocessStep
   scanModes: [{
     id: 'auto',
     name: 'Auto Mode',
     description: 'Best for detecting titles and values',
+    preprocess: DEFAULT_PREPROCESS,
     tesseractConfig: {
       tessedit_pageseg_mode: PSM.AUTO,
     },
@@ -299,6 +416,7 @@ export const CONFIG = {
     id: 'auto-whitelist',
     name: 'Auto Mode - with whitelist',
     description: 'Best for detecting titles and values',
+    preprocess: DEFAULT_PREPROCESS,
     tesseractConfig: {
       tessedit_char_whitelist: 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789/:-.,@ ',
       tessedit_pageseg_mode: PSM.AUTO,
@@ -307,6 +425,7 @@ export const CONFIG = {
     id: 'sparse_text_osd',
     name: 'Sparse Text OSD Mode',
     description: 'Sparse Text OSD Mode',
+    preprocess: DEFAULT_PREPROCESS,
     tesseractConfig: {
       tessedit_pageseg_mode: PSM.SPARSE_TEXT_OSD,
     },
@@ -314,6 +433,7 @@ export const CONFIG = {
     id: 'single_block',
     name: '(legacy) Single Block',
     description: 'Single block of text',
+    preprocess: DEFAULT_PREPROCESS,
     tesseractConfig: {
       tessedit_char_whitelist: 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789/:-.,@ ',
       tessedit_pageseg_mode: PSM.SINGLE_BLOCK,
@@ -323,15 +443,42 @@ export const CONFIG = {
     id: 'auto-extended',
     name: 'Auto Mode - get rich data',
     description: 'Best for detecting titles and values',
+    preprocess: DEFAULT_PREPROCESS,
     tesseractConfig: {
       tessedit_pageseg_mode: PSM.AUTO,
      /*tessedit_create_box: '1',
       tessedit_create_unlv: '1',
       tessedit_create_osd: '1',*/
     },
+  }, {
+    id: 'auto-best',
+    name: 'Auto Best - try several modes',
+    description: 'Reads the card with each mode in passes and keeps the best result',
+    // Only flatten the card here, each pass runs its own steps
+    preprocess: [],
+    passes: ['auto', 'auto-uneven-light', 'auto-whitelist', 'sparse_text_osd'],
+    tesseractConfig: {
+      tessedit_pageseg_mode: PSM.AUTO,
+    },
+  }, {
+    id: 'auto-uneven-light',
+    name: 'Auto Mode - uneven light',
+    description: 'Evens out shadows and glare before thresholding',
+    preprocess: [
+      { op: 'grayscale' },
+      { op: 'denoise', method: 'median', kernel: 3 },
+      { op: 'clahe', clipLimit: 2, tileSize: 8 },
+      { op: 'threshold', method: 'adaptive-gaussian', blockSize: 31, c: 12 },
+      { op: 'invert' },
+    ],
+    tesseractConfig: {
+      tessedit_pageseg_mode: PSM.AUTO,
+    },
   }]
 } as const;
 
+export type ScanMode = (typeof CONFIG.scanModes)[number];
+
 /*
 function validateDailyScans(data: unknown): data is DailyScans {
     if (!data || typeof data !== 'object') return false;
@@ -364,12 +511,13 @@ function validateDailyScans(data: unknown): data is DailyScans {
 type UseScansProps = {
   showNotification: (msg: string, type?: 'success' | 'warning' | 'danger' | 'info' | undefined) => void;
   startSelectedScanMode: string | null;
+  startSelectedTemplate?: string | null;
   videoRef: React.RefObject<Webcam> | null;
 }
 export function useScans(props: UseScansProps) {
   const [selectedScanMode, setSelectedScanMode] = useState<string>(props.startSelectedScanMode ?? CONFIG.scanModes[0].id);
+  const [selectedTemplate, setSelectedTemplate] = useState<string>(props.startSelectedTemplate ?? AUTO_TEMPLATE_ID);
 
-  const [isProcessing, setIsProcessing] = React.useState(false);
   // Compress image utility
   const compressImage = React.useCallback(async (dataUrl: string): Promise<string> => {
     return new Promise((resolve) => {
@@ -386,20 +534,31 @@ export function useScans(props: UseScansProps) {
         canvas.height = height;
         const ctx = canvas.getContext('2d');
         ctx?.drawImage(img, 0, 0, width, height);
-        const compressedData = canvas.toDataURL('image/jpeg', CONFIG.image.jpegQuality);
-        if (compressedData.length > CONFIG.image.maxStoredSize) {
-          const lowerQuality = CONFIG.image.jpegQuality * 0.8;
-          resolve(canvas.toDataURL('image/jpeg', lowerQuality));
-        } else {
-          resolve(compressedData);
-        }
+        // The best quality that fits the storage budget
+        resolve(encodeWithin(
+          quality => canvas.toDataURL('image/jpeg', quality),
+          CONFIG.image.maxStoredSize,
+          CONFIG.image.minJpegQuality,
+          CONFIG.image.jpegQuality
+        ));
+      };
+      // Kept as it is when it can't be decoded, rather than holding up every save
+      img.onerror = () => {
+        console.error('[compressImage] Could not decode image, storing it uncompressed');
+        resolve(dataUrl);
       };
       img.src = dataUrl;
     });
   }, []);
-  const [worker, setWorker] = useState<TesseractWorker | null>(null);
+  // Batch OCR runs on the pool, the live preview on a worker of its own so it never waits behind it
+  const [pool, setPool] = useState<WorkerPool<TesseractWorker> | null>(null);
+  const [previewWorker, setPreviewWorker] = useState<TesseractWorker | null>(null);
 
   const [orcStrength, setOrcStrength] = useState(0);
+  const [cardOutline, setCardOutline] = useState<CardOutline | null>(null);
+  const [liveFrame, setLiveFrame] = useState<LiveFrame | null>(null);
+  const [isAutoCapture, setIsAutoCapture] = useState(false);
+  const autoCaptureRef = React.useRef<AutoCaptureState>(initialAutoCapture);
   const [scans, setScans] = React.useState<Array<Scan>>(() => {
     try {
       console.log('Initializing scans from localStorage...');
@@ -461,44 +620,98 @@ export function useScans(props: UseScansProps) {
         return []
       }
     });
+    const isProcessing = scans.some(s => s.status === 'processing');
 
+    // The stored (compressed) image of each scan, by scan id, with the image it was made from.
+    // Fitting an image to the storage budget takes several JPEG encodes, so it is only redone when
+    // the scan's image changes.
+    const storedImagesRef = React.useRef(new Map<string, { source: string; stored: Promise<string> }>());
     const preSaveProcessing = async (scan: Scan):Promise<Scan> => {
+      let cached = storedImagesRef.current.get(scan.id);
+      if (!cached || cached.source !== scan.image) {
+        cached = { source: scan.image, stored: compressImage(scan.image) };
+        storedImagesRef.current.set(scan.id, cached);
+      }
       return {
         ...scan,
-        image: await compressImage(scan.image)
+        image: await cached.stored
       }
     }
   
     React.useEffect(() => {
-      try {
+      let cancelled = false;
+      const save = async () => {
+        try {
+          // Drop the stored images of scans that are gone
+          const ids = new Set(scans.map(s => s.id));
+          storedImagesRef.current.forEach((_, id) => { if (!ids.has(id)) storedImagesRef.current.delete(id); });
+          const scanToSave = await Promise.all(scans.map(preSaveProcessing));
+          if (cancelled) return;
+
+          console.log('Saving scans to localStorage...', {
+            totalScans: scanToSave.length
+          });
+    
+          const serialized = JSON.stringify(scanToSave);
+          console.log('Serialized data size:', serialized.length);
+          //localStorage.setItem('scanData', serialized);
+          console.log('Scans saved (OFF))');
+        } catch (error) {
+          console.error('Error saving scans to localStorage:', {
+            error,
+            errorMessage: error instanceof Error ? error.message : 'Unknown error',
+            errorStack: error instanceof Error ? error.stack : undefined,
+            scans: scans
+          });
+        }
+      };
+      void save();
+      return () => { cancelled = true; };
+    }, [scans]);
 
-        const scanToSave = Promise.all((scans.map(preSaveProcessing)))
+    // Progress (0-1) of the OCR step of each scan being processed, by scan id. Kept apart from the
+    // scans so progress ticks don't re-render and re-save every scan.
+    const [progress, setProgress] = useState<Record<string, number>>({});
+    // The scan each pool worker is reading, by slot, and the progress last shown for it
+    const jobsRef = React.useRef<Array<{ scanId: string; progress: number } | undefined>>([]);
+    const reportProgress = (slot: number, message: LoggerMessage) => {
+      const job = jobsRef.current[slot];
+      if (!job || message.status !== 'recognizing text') return;
+      // Tenths are plenty for a progress bar and keep re-renders down
+      const progress = Math.floor(message.progress * 10) / 10;
+      if (progress === job.progress) return;
+      job.progress = progress;
+      setProgress(prev => ({ ...prev, [job.scanId]: progress }));
+    };
 
-        console.log('Saving scans to localStorage...', {
-          scans: scanToSave,
-          totalScans: scans.length
-        });
-  
-        const serialized = JSON.stringify(scans);
-        console.log('Serialized data size:', serialized.length);
-        //localStorage.setItem('scanData', serialized);
-        console.log('Scans saved (OFF))');
-      } catch (error) {
-        console.error('Error saving scans to localStorage:', {
-          error,
-          errorMessage: error instanceof Error ? error.message : 'Unknown error',
-          errorStack: error instanceof Error ? error.stack : undefined,
-          scans: scans
-        });
-      }
-    }, [scans]);
+    // Orientation runs on a worker of its own, so a capture is turned upright without waiting behind
+    // batch OCR. Started with the others; a capture that comes sooner waits for it.
+    const orientationWorkerRef = React.useRef<Promise<TesseractWorker> | null>(null);
+    const orientationWorker = () => (orientationWorkerRef.current ??= createWorker('eng', OEM.LSTM_ONLY, {
+      // Legacy code and data as well as LSTM, so worker.detect can run orientation detection. Only
+      // this worker needs them, they are much larger to download and load.
+      legacyCore: true,
+      legacyLang: true,
+    }).catch(error => {
+      // Try again with the next capture
+      orientationWorkerRef.current = null;
+      throw error;
+    }));
+    // Whether the user was told orientation can't be checked; each scan it affects is tagged, so
+    // auto-capture doesn't repeat it with every shot
+    const orientationWarnedRef = React.useRef(false);
 
     useEffect(() => {
       const initWorker = async () => {
+          orientationWorker().catch(error => console.error('Failed to initialize orientation detection', error));
           try {
-              const newWorker = await createWorker();
-              await newWorker.reinitialize('eng');
-              setWorker(newWorker);
+              const size = poolSize(navigator.hardwareConcurrency, CONFIG.ocr.maxWorkers);
+              const [preview, ...workers] = await Promise.all([
+                createWorker('eng', OEM.LSTM_ONLY),
+                ...Array.from({ length: size }, (_, slot) => createWorker('eng', OEM.LSTM_ONLY, { logger: message => reportProgress(slot, message) })),
+              ]);
+              setPreviewWorker(preview);
+              setPool(createPool(workers));
           } catch (error) {
               console.error('Failed to initialize OCR engine', error);
               props?.showNotification('Failed to initialize OCR engine', 'danger');
@@ -542,73 +755,51 @@ export function useScans(props: UseScansProps) {
     // Add activeScanId state
     const [activeScanId, setActiveScanId] = React.useState<string | null>(null);
   
-    // Lock a field in a scan
-    const lockField = React.useCallback((scanId: string, fieldKey: keyof Omit<LicenceFieldsWithLock, 'createdAt'>) => {
-      setScans(prev => {
-        const newScans = { ...prev };
-        for (const day of Object.values(newScans)) {
-          const scan = scans.find(s => s.id === scanId);
-          if (scan) {
-            scan.fields[fieldKey].locked = true;
-          }
-        }
-        return newScans;
-      });
+    // Rescan mode: new captures are fused into the active scan instead of queued as new scans
+    const [isRescanMode, setIsRescanMode] = React.useState(false);
+  
+    // Lock (or unlock) a field in a scan, or one item of a list field
+    const lockField = React.useCallback((scanId: string, fieldKey: string, locked = true, item?: number) => {
+      setScans(prev => prev.map(s => {
+        const field = s.fields[fieldKey];
+        if (s.id !== scanId || !field) return s;
+        const updated = item === undefined
+          ? { ...field, locked }
+          : { ...field, items: field.items?.map((entry, index) => index === item ? { ...entry, locked } : entry) };
+        return { ...s, fields: { ...s.fields, [fieldKey]: updated } };
+      }));
     }, []);
   
-    // Merge new fields into the active scan (only for unlocked fields)
-    const mergeFieldsToActiveScan = React.useCallback((newFields: Partial<Omit<LicenceFieldsWithLock, 'createdAt'>>) => {
-      if (!activeScanId) return;
-      setScans(prev => {
-        const newScans = { ...prev };
-        for (const day of Object.values(newScans)) {
-          const scan = scans.find(s => s.id === activeScanId);
-          if (scan) {
-            for (const key of Object.keys(newFields) as (keyof Omit<LicenceFieldsWithLock, 'createdAt'>)[]) {
-              if (!scan.fields[key].locked && newFields[key]) {
-                scan.fields[key].value = newFields[key]!.value;
-              }
-            }
-          }
-        }
-        return newScans;
-      });
+    // Merge another capture's matches into the active scan (only unlocked fields change)
+    const mergeFieldsToActiveScan = React.useCallback((frameMatches: FieldMatches, scanId: string | null = activeScanId) => {
+      if (!scanId) return;
+      setScans(prev => prev.map(s => s.id === scanId ? fuseFrame(s, frameMatches) : s));
     }, [activeScanId]);
 
     // Add scan to queue (for new photo)
-    const addScanToQueue = React.useCallback((imageData: string) => {
+    // details: what preprocessing found out about the capture, e.g. its quality and orientation
+    const addScanToQueue = React.useCallback((imageData: string, details: Pick<Scan, 'quality' | 'orientation' | 'rectified' | 'original' | 'pipeline' | 'page'> = {}, templateId: string = selectedTemplate) => {
       setScans(prev => {
+        const target = isRescanMode ? prev.find(s => s.id === activeScanId && s.status === 'completed') : undefined;
+        // A rescan is read with the template of the scan it is fused into
+        const template = getTemplate(target ? target.templateId : templateId);
         const newScan: Scan = {
           id: Date.now() + Math.random().toString(),
           image: imageData,
           ocrText: '',
-          fields: {
-            id: { value: '', locked: false },
-            name: { value: '', locked: false },
-            dor: { value: '', locked: false },
-            issue: { value: '', locked: false },
-            valid: { value: '', locked: false },
-            spousePartner: { value: '', locked: false },
-            other: { value: '', locked: false },
-            createdAt: Date.now()
-          },
-          matches: {
-            id: [],
-            name: [],
-            dor: [],
-            issue: [],
-            valid: [],
-            spousePartner: [],
-            other: [],
-          },
+          templateId: template ? template.id : AUTO_TEMPLATE_ID,
+          fields: emptyFields(template),
+          matches: template ? emptyMatches(template) : {},
           createdAt: Date.now(),
-          status: 'queued'
+          status: 'queued',
+          ...details,
+          ...(target ? { mergeInto: target.id } : {})
         };
         const updated = [...prev, newScan];
         if (updated.length > CONFIG.storage.maxItems) updated.shift();
         return updated;
       });
-    }, []);
+    }, [selectedTemplate, isRescanMode, activeScanId]);
 
     // Clear all scans (queue and processed)
     const clearAllScans = React.useCallback(() => {
@@ -616,284 +807,279 @@ export function useScans(props: UseScansProps) {
       //localStorage.removeItem('scanData');
     }, []);
 
+    // Debug images state for intermediary canvas renderings
+    const [debugImages, setDebugImages] = React.useState<Array<{ label: string, dataUrl: string, subtitle?: string }>>([]);
+    const addDebugImage = React.useCallback((canvas: HTMLCanvasElement, label: string, subtitle?: string) => {
+      setDebugImages(prev => [
+        ...prev,
+        { label, dataUrl: canvas.toDataURL('image/png'), subtitle }
+      ]);
+    }, []);
+
+    // Add the intermediate images an image job sent back to the debug panel
+    const addDebugImages = React.useCallback(async (debug: DebugImage[]) => {
+      const images = await Promise.all(debug.map(async ({ label, subtitle, image }) => ({ label, subtitle, dataUrl: await blobToDataUrl(image) })));
+      setDebugImages(prev => [...prev, ...images]);
+    }, []);
+
+    // Image jobs go to the worker, started on first use
+    const imageProcessorRef = React.useRef<ImageClient | null>(null);
+    const imageJobs = () => (imageProcessorRef.current ??= createImageProcessor());
+
     // Process image (OCR)
+    // commit puts the result on the scan; the queue commits results in capture order
     type ProcessImageResult = {
       success: boolean;
       matches: FieldMatches;
       createdAt: number;
       ocrText: string;
+      commit: () => void;
     };
 
-    const processImage = React.useCallback(async (scan: Scan, selectedScanMode: string, showNotification?: (msg: string, type?: 'success' | 'warning' | 'danger' | 'info' | undefined) => void): Promise<ProcessImageResult | null> => {
-      if (!worker) {
-        console.error('[processImage] No worker available');
-        return null;
-      }
+    const processImage = React.useCallback(async (scan: Scan, selectedScanMode: string, worker: TesseractWorker, showNotification?: (msg: string, type?: 'success' | 'warning' | 'danger' | 'info' | undefined) => void): Promise<ProcessImageResult> => {
       try {
         console.log('[processImage] Starting OCR for scan:', scan.id, 'mode:', selectedScanMode);
         const selectedMode = CONFIG.scanModes.find(mode => mode.id === selectedScanMode);
         if (!selectedMode) throw new Error('Invalid scan mode selected');
-        await worker.setParameters(selectedMode.tesseractConfig);
-        const result = await worker.recognize(scan.image);
-        setOrcStrength(result.data.confidence)
-        const ocrText = result.data.text;
-        console.log('[processImage] OCR result:', { confidence: result.data.confidence, text: ocrText });
-        const { matches } = extractFieldsV2(ocrText);
-        console.log('[processImage] Extracted matches:', matches);
-        setScans(prev => prev.map(s => {
-          if (s.id !== scan.id) return s;
-          const prevFields = s.fields;
-          const newFields = { ...prevFields };
-          (['id', 'name', 'dor', 'issue', 'valid', 'spousePartner', 'other'] as const).forEach(fieldKey => {
-            if (!prevFields[fieldKey].locked) {
-              const bestMatch = matches[fieldKey] && matches[fieldKey][0] ? matches[fieldKey][0].value : '';
-              newFields[fieldKey] = { value: bestMatch, locked: false };
-            }
-          });
-          newFields.createdAt = prevFields.createdAt;
-          return {
-            ...s,
-            ocrText,
-            fields: newFields,
-            matches,
-            status: 'completed'
-          };
-        }));
-        if (showNotification) showNotification('Image processed successfully', 'success');
-        return { success: true, ocrText, matches, createdAt: Date.now() };
+
+        // Read each template field that has a region on its own patch of the card, with only the
+        // characters it can hold. Nothing to read unless the card was found and flattened.
+        const readRegions = async (image: string, template: DocumentTemplate, mode: ScanMode) => {
+          const fields = regionFields(template);
+          if (!scan.rectified || fields.length === 0) return { matches: {} as FieldMatches, words: [] as OcrWord[] };
+          const { width, height } = await loadImage(image);
+          const reads = [];
+          const words: OcrWord[] = [];
+          for (const field of fields) {
+            const rectangle = regionRectangle(field.region, width, height);
+            await worker.setParameters({
+              tessedit_char_whitelist: regionCharset(field),
+              tessedit_pageseg_mode: field.list || field.type === 'address' ? PSM.SINGLE_BLOCK : PSM.SINGLE_LINE,
+            });
+            const result = await worker.recognize(image, { rectangle }, { text: true, blocks: true });
+            words.push(...toOcrWords(result.data));
+            reads.push({ field, text: result.data.text, rectangle });
+          }
+          // Back to the mode's own settings, dropping the last field's whitelist
+          await worker.setParameters({ tessedit_char_whitelist: '', ...mode.tesseractConfig });
+          return { matches: regionMatches(reads), words };
+        };
+
+        // OCR the image with one scan mode and extract its fields
+        const readImage = async (image: string, mode: ScanMode) => {
+          // Pool workers are shared between scans, so clear any whitelist the last job left behind
+          await worker.setParameters({ tessedit_char_whitelist: '', ...mode.tesseractConfig });
+          const result = await worker.recognize(image, {}, { text: true, blocks: true });
+          const ocrText = result.data.text;
+          const words = toOcrWords(result.data);
+          const notes = [`Mode ${mode.id}, OCR confidence ${Math.round(result.data.confidence)}, ${words.length} words`];
+          if (scan.orientation) notes.push(`Turned ${scan.orientation.angle}° upright (${scan.orientation.source})`);
+          const template = getTemplate(scan.templateId) ?? detectTemplate(ocrText);
+          notes.push(template.id === scan.templateId
+            ? `Template ${template.id} (selected)`
+            : `Template ${template.id} (detected, scores ${scoreTemplates(ocrText).map(s => `${s.template.id}:${s.score}`).join(', ')})`);
+          const layout = extractFieldsFromLayout(words, template);
+          const text = extractWithTemplate(ocrText, template, { trace: true });
+          notes.push(`Layout extractor found ${Object.values(layout.matches).flat().length} candidate(s)`);
+          const regions = await readRegions(image, template, mode);
+          const regionKeys = Object.keys(regions.matches);
+          if (regionKeys.length > 0) notes.push(`Region OCR read ${regionKeys.join(', ')}`);
+          // Layout matches go first so they win ties against the line-order guesses,
+          // then every candidate is weighed by how well OCR could read it. Region reads are
+          // weighed by their own words.
+          const extracted = mergeMatches(
+            scoreMatches(mergeMatches(layout.matches, text.matches), template, words, textLines(ocrText)),
+            scoreMatches(regions.matches, template, regions.words, []),
+          );
+          const { matches, warnings } = validateMatches(extracted, template);
+          return { mode: mode.id, ocrConfidence: result.data.confidence, ocrText, words, notes, template, text, extracted, matches, warnings };
+        };
+
+        // Auto-best reads the flattened card once per pass, each with its own preprocessing, and
+        // stops at the first pass good enough to trust
+        const passModes: ScanMode[] = 'passes' in selectedMode
+          ? CONFIG.scanModes.filter(mode => (selectedMode.passes as readonly string[]).includes(mode.id))
+          : [selectedMode];
+        const reads: Array<Awaited<ReturnType<typeof readImage>> & { score: PassScore }> = [];
+        // Each pass runs its mode's steps on the flattened card
+        const passImage = async (mode: ScanMode) => {
+          const result = await imageJobs().request('pipeline', { image: await dataUrlBlob(scan.image), steps: mode.preprocess });
+          await addDebugImages(result.debug);
+          return blobToDataUrl(result.image);
+        };
+        for (const mode of passModes) {
+          const image = 'passes' in selectedMode ? await passImage(mode) : scan.image;
+          const read = await readImage(image, mode);
+          reads.push({ ...read, score: scorePass(read.matches, read.warnings, read.template) });
+          if (passesValidation(reads[reads.length - 1].score)) break;
+        }
+        const best = reads.reduce((winner, read) => (read.score.score > winner.score.score ? read : winner));
+        const { ocrText, words, notes, template, text, extracted, warnings } = best;
+
+        const others = reads.filter(read => read !== best);
+        // Every pass's candidates are kept for review, only the winner's pick the field values
+        const matches = others.length > 0 ? withOtherPasses(best, others) : best.matches;
+        const winning = fromPass(matches, best.mode);
+        if (passModes.length > 1) {
+          reads.forEach(read => notes.push(`Pass ${read.mode}: score ${read.score.score.toFixed(2)}, ${Math.round(read.score.completeness * 100)}% complete, confidence ${read.score.confidence.toFixed(2)}, ${read.score.warnings} warning(s)${read === best ? ' - kept' : ''}`));
+          if (reads.length < passModes.length) notes.push(`Stopped after ${reads.length} of ${passModes.length} passes, score above ${AUTO_BEST.passScore}`);
+        }
+        if (scan.history?.length) notes.push(`Reprocessed from the original, ${scan.history.length} earlier result(s) kept`);
+        warnings.forEach(warning => notes.push(`Warning ${warning.code}: ${warning.message}`));
+        const trace = withWinners({ ...(text.trace ?? createTrace([])), notes }, winning);
+        const { mergeInto } = scan;
+        const commit = () => {
+          setOrcStrength(best.ocrConfidence);
+          if (mergeInto) {
+            // A rescan only adds its votes to the scan it belongs to
+            setScans(prev => prev.filter(s => s.id !== scan.id));
+            mergeFieldsToActiveScan(extracted, mergeInto);
+            if (showNotification) showNotification('Rescan added to scan', 'success');
+            return;
+          }
+          setScans(prev => prev.map(s => {
+            if (s.id !== scan.id) return s;
+            const fields = bestFields(template, winning, s.fields);
+            return {
+              ...s,
+              ocrText,
+              words,
+              templateId: template.id,
+              fields,
+              names: nameParts(template, fields),
+              addresses: addressParts(template, fields),
+              matches,
+              warnings,
+              pool: poolFrame({}, extracted, 0),
+              frames: 1,
+              trace,
+              status: 'completed'
+            };
+          }));
+          if (showNotification) showNotification('Image processed successfully', 'success');
+        };
+        return { success: true, ocrText, matches, createdAt: Date.now(), commit };
       } catch (error) {
         console.error('[processImage] Error during OCR:', error);
-        setScans(prev => prev.map(s => s.id === scan.id ? { ...s, status: 'error' } : s));
-        if (showNotification) showNotification('Failed to process image', 'danger');
-        return null;
+        return { success: false, ocrText: '', matches: {}, createdAt: Date.now(), commit: () => {
+          setScans(prev => prev.map(s => s.id === scan.id ? { ...s, status: 'error' } : s));
+          if (showNotification) showNotification('Failed to process image', 'danger');
+        } };
       }
-    }, [worker]);
+    }, [mergeFieldsToActiveScan, addDebugImages]);
 
-    const lockActivePhotoField = React.useCallback((fieldName: keyof LicenceFieldsWithLock) => {
+    const lockActivePhotoField = React.useCallback((fieldName: string) => {
       if(!activeScanId){
         props.showNotification('no active scan for locking fields')
+        return
       }
+      lockField(activeScanId, fieldName)
+    }, [activeScanId, lockField])
 
-      let newScans = scans.map((s) => {
-        if (s.id == activeScanId){
-          const newScan:Scan =  {
-            ...s,
-            fields: {
-              [fieldName]: {
-                locked: true,
-                value:  s.fields[fieldName]
-              },
-              ...s.fields
-            }
+    // Hand each newly queued scan to the pool. Scans wait there for a free worker, and their
+    // results are committed in capture order however the workers finish.
+    const submittedRef = React.useRef(new Set<string>());
+    const sequencerRef = React.useRef(createSequencer());
+    React.useEffect(() => {
+      if (!pool) return;
+      scans.filter(s => s.status === 'queued' && !submittedRef.current.has(s.id)).forEach(scan => {
+        submittedRef.current.add(scan.id);
+        const ticket = sequencerRef.current.ticket();
+        pool.run(async (worker, slot) => {
+          console.log('[processQueue] Processing scan:', scan.id, 'on worker', slot);
+          jobsRef.current[slot] = { scanId: scan.id, progress: 0 };
+          setScans(prev => prev.map(s => s.id === scan.id ? { ...s, status: 'processing' } : s));
+          setProgress(prev => ({ ...prev, [scan.id]: 0 }));
+          try {
+            // A scan is read with the mode that preprocessed it
+            return await processImage(scan, scan.pipeline?.mode ?? selectedScanMode, worker);
+          } finally {
+            jobsRef.current[slot] = undefined;
+            setProgress(({ [scan.id]: _, ...rest }) => rest);
           }
-          return newScan;
-        }else{
-          return s
-        }
-      })
-
-      setScans(newScans)
+        }).then(
+          result => sequencerRef.current.release(ticket, result.commit),
+          error => {
+            console.error('[processQueue] Job failed:', error);
+            sequencerRef.current.release(ticket, () => setScans(prev => prev.map(s => s.id === scan.id ? { ...s, status: 'error' } : s)));
+          }
+        ).finally(() => submittedRef.current.delete(scan.id));
+      });
+  }, [scans, pool, processImage, selectedScanMode]);
 
-    }, [])
 
-    // Process queue
-    const processQueue = useCallback(async (selectedScanMode: string, showNotification?: (msg: string, type?: 'success' | 'warning' | 'danger' | 'info' | undefined) => void) => {
-      console.log('[processQueue] Called. isProcessing:', isProcessing, 'worker:', !!worker, 'scans.length:', scans.length);
-      if (isProcessing ) return;
- 
-      if(!worker) {
-        console.warn('[processQueue] Queue processing attempted with no worker');
-        return
-      }
- 
-      if(scans.length === 0 ) {
-        console.log('[processQueue] No scans to process.');
-        return
+    // Which way up the card is. Tesseract OSD first; when it can't tell, the direction of the text
+    // lines narrows it to two angles and whichever OCR reads with more confidence wins.
+    // 'unavailable' when the orientation worker couldn't be started.
+    async function detectOrientation(card: Blob, candidates: [Angle, Angle]): Promise<{ angle: Angle; source: ScanOrientation['source'] }> {
+      let worker: TesseractWorker;
+      try {
+        worker = await orientationWorker();
+      } catch (error) {
+        return { angle: 0, source: 'unavailable' };
       }
-      setIsProcessing(true);
-      const scan = scans.find(s => s.status === 'queued');
-      if (scan) {
-        console.log('[processQueue] Processing scan:', scan.id);
-        setScans(prev => prev.map(s => s.id === scan.id ? { ...s, status: 'processing' } : s));
-        await processImage(scan, selectedScanMode, showNotification);
-      } else {
-        console.log('[processQueue] No queued scan found.');
+      try {
+        const angle = osdAngle((await worker.detect(card)).data);
+        if (angle !== null) return { angle, source: 'osd' };
+      } catch (error) {
+        console.warn('[detectOrientation] OSD failed, falling back to text lines', error);
       }
-      setIsProcessing(false);
-      console.log('[processQueue] Done.');
-    }, [isProcessing, scans, worker, processImage]);
-
 
-    // Use effect to process queue when scans change
-    React.useEffect(() => {
-      if (!isProcessing && scans.some(s => s.status === 'queued')) {
-          void processQueue(selectedScanMode);
-      }
-  }, [isProcessing, scans, processQueue, selectedScanMode]);
-
-    // Deskew the image so the card/text is horizontal
-    function deskewImage(src: any): any {
-      // Convert to grayscale
-      let gray = new cv.Mat();
-      cv.cvtColor(src, gray, cv.COLOR_RGBA2GRAY, 0);
-
-      // Binarize
-      let bin = new cv.Mat();
-      cv.adaptiveThreshold(
-        gray, bin, 255,
-        cv.ADAPTIVE_THRESH_MEAN_C,
-        cv.THRESH_BINARY_INV,
-        15, 10
-      );
-
-      // Use Canny edge detection (with destination Mat)
-      let edges = new cv.Mat();
-      cv.Canny(bin, edges, 50, 150);
-
-      // Morphological closing to connect lines and remove small noise
-      let kernel = cv.getStructuringElement(cv.MORPH_RECT, new cv.Size(5, 5), new cv.Point(-1, -1));
-      let closed = new cv.Mat();
-      cv.morphologyEx(
-        edges,
-        closed,
-        cv.MORPH_CLOSE,
-        kernel,
-        new cv.Point(-1, -1),
-        1,
-        cv.BORDER_CONSTANT,
-        cv.morphologyDefaultBorderValue()
-      );
-
-      // Find contours
-      let contours = new cv.MatVector();
-      let hierarchy = new cv.Mat();
-      cv.findContours(closed, contours, hierarchy, cv.RETR_EXTERNAL, cv.CHAIN_APPROX_SIMPLE);
-
-      // Filter contours by area and aspect ratio
-      let maxArea = 0;
-      let maxContour: any = null;
-      let imgArea = src.cols * src.rows;
-      for (let i = 0; i < contours.size(); i++) {
-        let cnt = contours.get(i);
-        let area = cv.contourArea(cnt);
-        if (area < imgArea * 0.1) continue; // Ignore very small contours
-        let rect = cv.boundingRect(cnt);
-        let aspect = rect.width / rect.height;
-        if (aspect < 1.0 || aspect > 2.5) continue; // Ignore unlikely aspect ratios (tweak as needed)
-        if (area > maxArea) {
-          maxArea = area;
-          maxContour = cnt;
-        }
+      await worker.setParameters({ tessedit_pageseg_mode: PSM.AUTO });
+      let best = { angle: candidates[0], confidence: -1 };
+      for (const angle of candidates) {
+        const { image } = await imageJobs().request('rotate', { image: card, angle });
+        const { data } = await worker.recognize(image);
+        if (data.confidence > best.confidence) best = { angle, confidence: data.confidence };
       }
-
-      /*  let rotated = src.clone();
-      if (maxContour) {
-        // Get min area rect
-        let rotatedRect = cv.minAreaRect(maxContour);
-        let angle = rotatedRect.angle;
-        const width = rotatedRect.size.width;
-        const height = rotatedRect.size.height;
-        if (width < height) {
-        //  angle -= 90;
-        }
-        const originalAngle = angle;
-        angle = Math.max(-30, Math.min(30, angle));
-        console.log('[deskewImage] Largest contour area:', maxArea);
-        console.log('[deskewImage] RotatedRect width:', width, 'height:', height);
-        console.log('[deskewImage] Original angle:', originalAngle);
-        console.log('[deskewImage] Clamped angle:', angle);
-      if (Math.abs(angle) > 10) {
-          let center = new cv.Point(src.cols / 2, src.rows / 2);
-          let M = cv.getRotationMatrix2D(center, angle, 1);
-          cv.warpAffine(src, rotated, M, new cv.Size(src.cols, src.rows), cv.INTER_LINEAR, cv.BORDER_CONSTANT, new cv.Scalar());
-          M.delete();
-          console.log('[deskewImage] Deskewing applied.');
-        } else {
-          console.log('[deskewImage] Angle below threshold, skipping deskew.');
-        }
-      } else {
-        console.log('[deskewImage] No suitable contour found for deskewing.');
-      }*/
-
-      gray.delete(); bin.delete(); edges.delete(); closed.delete(); kernel.delete(); contours.delete(); hierarchy.delete();
-      return src;
+      return { angle: best.angle, source: 'text-lines' };
     }
 
-    // Debug images state for intermediary canvas renderings
-    const [debugImages, setDebugImages] = React.useState<Array<{ label: string, dataUrl: string, subtitle?: string }>>([]);
-    const addDebugImage = React.useCallback((canvas: HTMLCanvasElement, label: string, subtitle?: string) => {
-      setDebugImages(prev => [
-        ...prev,
-        { label, dataUrl: canvas.toDataURL('image/png'), subtitle }
-      ]);
-    }, []);
-
-    // Preprocess image using OpenCV.js (opencv-ts): deskew + grayscale + adaptive threshold
-    async function preprocessImage(imageDataUrl: string): Promise<string> {
-      return new Promise((resolve) => {
-        const img = new window.Image();
-        img.onload = () => {
-
-          if(props.videoRef == null || props.videoRef.current == null) return
-
-          const video = props.videoRef.current.video;
-          if (!video || !video.videoWidth || !video.videoHeight) return;
-
-          const canvas = document.createElement('canvas');
-          // const ctx = canvas.getContext('2d');
-
-          /*if (video.videoHeight > video.videoWidth) {
-            // Portrait: rotate to landscape
-            canvas.width = video.videoHeight;
-            canvas.height = video.videoWidth;
-            if (ctx) {
-              ctx.save();
-              ctx.translate(canvas.width / 2, canvas.height / 2);
-              ctx.rotate(90 * Math.PI / 180);
-              ctx.drawImage(video, 0 - video.videoWidth / 2, 0 - video.videoHeight / 2, video.videoWidth, video.videoHeight);
-              ctx.restore();
-            }
-          } else {
-            // Already landscape
-            canvas.width = video.videoWidth;
-            canvas.height = video.videoHeight;
-            ctx?.drawImage(video, 0, 0, video.videoWidth, video.videoHeight);
-          }*/
-          // Draw the uploaded image onto the canvas
-          canvas.width = img.width;
-          canvas.height = img.height;
-          const ctx = canvas.getContext('2d');
-          ctx?.drawImage(img, 0, 0, img.width, img.height);
-
-          // Add original image to debug
-          addDebugImage(canvas, 'perProcessImage - Start', `w:${canvas.width} h:${canvas.height}`);
-
-          let src = cv.imread(canvas);
-          // Deskew the image
-         // let deskewed = deskewImage(src);
-          let gray = new cv.Mat();
-          let bin = new cv.Mat();
-          // Convert to grayscale
-          cv.cvtColor(src, gray, cv.COLOR_RGBA2GRAY, 0);
-          // Adaptive threshold (binarization)
-          cv.adaptiveThreshold(
-            gray, bin, 255,
-            cv.ADAPTIVE_THRESH_MEAN_C, // or cv.ADAPTIVE_THRESH_GAUSSIAN_C
-            cv.THRESH_BINARY_INV,      // Invert: black text on white
-            15, 10                     // Block size, C (tweak as needed)
-          );
-          // Show result on canvas and export
-          cv.imshow(canvas, bin);
-          // Add thresholded image to debug
-          addDebugImage(canvas, 'preprocessImage -  Thresholded', `w:${canvas.width} h:${canvas.height}`);
-          // Clean up
-          src.delete(); gray.delete(); bin.delete();
-          resolve(canvas.toDataURL('image/png'));
-        };
-        img.src = imageDataUrl;
-      });
+    // Preprocess an image in the image worker: deskew, then the scan mode's steps (the selected one
+    // unless given), measuring the quality of the grayscale card before they run
+    async function preprocessImage(imageDataUrl: string, exif: Angle = 0, modeId: string = selectedScanMode): Promise<PreprocessedImage> {
+      // Flatten the card, or keep the whole image when there is no card to find
+      const { card, found, angles, debug } = await imageJobs().request('card', { image: await dataUrlBlob(imageDataUrl), cardWidth: CONFIG.image.cardWidth });
+      await addDebugImages(debug);
+      // Turn it upright; an upload's EXIF rotation was already applied when it was decoded
+      const detected = await detectOrientation(card, angles);
+      if (detected.source === 'unavailable' && !orientationWarnedRef.current) {
+        orientationWarnedRef.current = true;
+        props.showNotification('Could not check which way up the card is, cards are read as captured', 'warning');
+      }
+      const orientation: ScanOrientation = {
+        angle: normalizeAngle(exif + detected.angle),
+        source: detected.angle === 0 && exif !== 0 ? 'exif' : detected.source,
+      };
+      // Grade it and run the scan mode's steps, e.g. threshold and invert
+      const mode = CONFIG.scanModes.find(m => m.id === modeId) ?? CONFIG.scanModes[0];
+      const finished = await imageJobs().request('finish', { card, angle: detected.angle, steps: mode.preprocess });
+      await addDebugImages(finished.debug);
+      return {
+        image: await blobToDataUrl(finished.image),
+        quality: finished.quality,
+        orientation,
+        // Field regions are laid out on a landscape card, a card still on its side won't match them
+        rectified: found && finished.width > finished.height,
+        original: { image: imageDataUrl, exif },
+        pipeline: { mode: mode.id, steps: mode.preprocess.map(describeStep) },
+      };
     }
 
+    // Queue a capture unless it is too poor to read, warning when it is borderline.
+    // Returns whether it was queued.
+    const queueCapture = React.useCallback((processed: PreprocessedImage, name: string, showNotification?: (msg: string, type?: 'success' | 'warning' | 'danger' | 'info' | undefined) => void): boolean => {
+      const { quality } = processed;
+      if (quality.level === 'reject') {
+        if (showNotification) showNotification(`${name} is ${quality.problems.join(', ')} - please retake it`, 'danger');
+        return false;
+      }
+      const { orientation, rectified, original, pipeline, page } = processed;
+      addScanToQueue(processed.image, { quality, orientation, rectified, original, pipeline, ...(page === undefined ? {} : { page }) });
+      if (quality.level === 'warn' && showNotification) showNotification(`${name} may be hard to read: ${quality.problems.join(', ')}`, 'warning');
+      return true;
+    }, [addScanToQueue]);
+
     // Handle file upload
     const handleFileUpload = React.useCallback(async (event: React.ChangeEvent<HTMLInputElement>, showNotification?: (msg: string, type?: 'success' | 'warning' | 'danger' | 'info' | undefined) => void) => {
       const files = Array.from(event.target.files || []);
@@ -902,69 +1088,113 @@ export function useScans(props: UseScansProps) {
           if (showNotification) showNotification(`Image ${file.name} is too large and will be skipped`, 'warning');
           continue;
         }
-        const reader = new FileReader();
-        reader.onload = async (e) => {
-          const result = e.target?.result;
-          if (typeof result === 'string') {
-            try {
-              // Preprocess image for better OCR
-              const processed = await preprocessImage(result);
-              addScanToQueue(processed);
-              if (showNotification) showNotification(`Added ${file.name} to queue`, 'success');
-            } catch (error) {
-              if (showNotification) showNotification(`Failed to process ${file.name}`, 'danger');
+        try {
+          // Decode upright, a scan per page, then preprocess for better OCR
+          for (const { dataUrl, exif, page } of await readUpload(file)) {
+            const name = pageName(file.name, page);
+            const processed = await preprocessImage(dataUrl, exif);
+            if (queueCapture({ ...processed, page }, name, showNotification) && processed.quality.level === 'good') {
+              if (showNotification) showNotification(`Added ${name} to queue`, 'success');
             }
           }
-        };
-        reader.readAsDataURL(file);
+        } catch (error) {
+          if (showNotification) showNotification(`Failed to process ${file.name}`, 'danger');
+        }
       }
-    }, [addScanToQueue]);
+    }, [queueCapture, selectedScanMode, pool]);
+
+    // Read a scan again from its original capture with another scan mode. The current result moves
+    // to the scan's history; locked fields keep their values when the new result comes in.
+    const reprocessScan = React.useCallback(async (scanId: string, modeId: string, showNotification?: (msg: string, type?: 'success' | 'warning' | 'danger' | 'info' | undefined) => void) => {
+      const scan = scans.find(s => s.id === scanId);
+      if (!scan || scan.status === 'queued' || scan.status === 'processing') return;
+      if (!scan.original) {
+        if (showNotification) showNotification('This scan has no original capture to reprocess', 'warning');
+        return;
+      }
+      try {
+        const processed = await preprocessImage(scan.original.image, scan.original.exif, modeId);
+        // The same quality gate as a new capture; the current result is kept when it rejects
+        const { quality } = processed;
+        if (quality.level === 'reject') {
+          if (showNotification) showNotification(`Reprocessing with ${modeId} left the scan ${quality.problems.join(', ')}, keeping the current result`, 'danger');
+          return;
+        }
+        if (quality.level === 'warn' && showNotification) showNotification(`Reprocessed scan may be hard to read: ${quality.problems.join(', ')}`, 'warning');
+        setScans(prev => prev.map(s => {
+          if (s.id !== scanId) return s;
+          const { pipeline, templateId, ocrText, fields, matches, warnings } = s;
+          return {
+            ...s,
+            image: processed.image,
+            quality: processed.quality,
+            orientation: processed.orientation,
+            rectified: processed.rectified,
+            pipeline: processed.pipeline,
+            history: [...(s.history ?? []), { pipeline, templateId, ocrText, fields, matches, warnings, replacedAt: Date.now() }],
+            status: 'queued',
+          };
+        }));
+      } catch (error) {
+        if (showNotification) showNotification('Failed to reprocess scan', 'danger');
+      }
+    }, [scans, selectedScanMode, pool]);
 
-    // Lightweight OCR score: count of recognized text characters
-    const getORCScore = React.useCallback(async (videoRef: React.RefObject<Webcam>): Promise<number> => {
+    // Read the camera frame for the live preview: its sharpness and hash for auto-capture, measured
+    // in the image worker, and a lightweight OCR score, the count of recognized text characters
+    const readLiveFrame = React.useCallback(async (videoRef: React.RefObject<Webcam>): Promise<LiveFrame | null> => {
       if (!videoRef || !videoRef.current) {
-        return 0;
+        return null;
       }
-      if (!worker) {
-        return 0;
+      if (!previewWorker) {
+        return null;
       }
       const selectedMode = CONFIG.scanModes.find(mode => mode.id === selectedScanMode);
       if (!selectedMode) throw new Error('Invalid scan mode selected');
-  const video = videoRef.current.video;
-  if (!video || !video.videoWidth || !video.videoHeight) return 0;
-  let canvas = document.createElement('canvas');
-  let ctx = canvas.getContext('2d');
-  if (video.videoHeight > video.videoWidth) {
-    // Portrait: rotate to landscape
-    canvas.width = video.videoHeight;
-    canvas.height = video.videoWidth;
-    if (ctx) {
-      ctx.save();
-      ctx.translate(canvas.width / 2, canvas.height / 2);
-      ctx.rotate(90 * Math.PI / 180);
-      ctx.drawImage(video, 0 - video.videoWidth / 2, 0 - video.videoHeight / 2, video.videoWidth, video.videoHeight);
-      ctx.restore();
-    }
-  } else {
-    // Already landscape
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-    ctx?.drawImage(video, 0, 0, video.videoWidth, video.videoHeight);
-  }
-      const dataUrl = canvas.toDataURL('image/jpeg');
+      const video = videoRef.current.video;
+      if (!video || !video.videoWidth || !video.videoHeight) return null;
+      // The frame goes to the worker as is, it turns portrait frames landscape for the preview OCR
+      const frame = await createImageBitmap(video);
+      const { sharpness, hash, preview } = await imageJobs().request('sample', { frame, width: CONFIG.image.cardWidth });
 
-      await worker.setParameters({
+      await previewWorker.setParameters({
         ...selectedMode.tesseractConfig
-    });
+      });
       // Use a lightweight Tesseract call (no layout, just text)
-      const result = await worker.recognize(dataUrl);
+      const result = await previewWorker.recognize(preview);
       // Score: number of non-whitespace characters detected
       const text = result.data.text || '';
-      const length =  text.replace(/\s/g, '').length;
+      const score = text.replace(/\s/g, '').length;
 
-      addDebugImage(canvas, 'getORCScore - Result', `Score ${length}`);
-      return length
-    }, [worker, selectedScanMode]);
+      await addDebugImages([{ label: 'getORCScore - Result', subtitle: `Score ${score}`, image: preview }]);
+      return { score, sharpness, hash };
+    }, [previewWorker, selectedScanMode, addDebugImages]);
+
+    // Live card outline: find the card in a downscaled video frame a few times a second, skipping
+    // ticks while the worker is still on the last frame
+    useEffect(() => {
+      let inFlight = false;
+      const timer = setInterval(() => {
+        const video = props.videoRef?.current?.video;
+        if (!video || !video.videoWidth || !video.videoHeight) {
+          setCardOutline(null);
+          return;
+        }
+        if (inFlight) return;
+        inFlight = true;
+        const scale = Math.min(1, CONFIG.cardOutline.width / video.videoWidth);
+        const { videoWidth: width, videoHeight: height } = video;
+        createImageBitmap(video, { resizeWidth: Math.round(width * scale), resizeHeight: Math.round(height * scale), resizeQuality: 'low' })
+          .then(frame => imageJobs().request('outline', { frame, minArea: CONFIG.cardOutline.minArea }))
+          .then(({ quad: found }) => {
+            const quad = found && found.map(corner => ({ x: corner.x / scale, y: corner.y / scale })) as Quad;
+            setCardOutline({ quad, framing: cardFraming(quad, width * height), width, height });
+          })
+          .catch(error => console.warn('[cardOutline] Frame skipped', error))
+          .finally(() => { inFlight = false; });
+      }, CONFIG.cardOutline.pollMs);
+      return () => clearInterval(timer);
+    }, [props.videoRef]);
 
     // Live OCR score polling effect
     useEffect(() => {
@@ -975,9 +1205,12 @@ export function useScans(props: UseScansProps) {
         if (!isPolling && props.videoRef && props.videoRef.current) {
           isPolling = true;
           try {
-            const res = await getORCScore(props.videoRef);
-            console.log('[getORCScore] OCR score:', res);
-            setOrcStrength(res);
+            const frame = await readLiveFrame(props.videoRef);
+            console.log('[getORCScore] OCR score:', frame?.score ?? 0);
+            setOrcStrength(frame?.score ?? 0);
+            setLiveFrame(frame);
+          } catch (error) {
+            console.warn('[getORCScore] Frame skipped', error);
           } finally {
             isPolling = false;
           }
@@ -990,7 +1223,7 @@ export function useScans(props: UseScansProps) {
       return () => {
         stopped = true;
       };
-    }, [props.videoRef, getORCScore]);
+    }, [props.videoRef, readLiveFrame]);
 /*
     const captureFrame = React.useCallback(async (videoRef: React.RefObject<HTMLVideoElement>):Promise<string | null>  => {
       if (!canvas) return null;
@@ -1022,67 +1255,47 @@ export function useScans(props: UseScansProps) {
     }, []);*/
 
     // Take photo from camera
-    const takePhoto = React.useCallback(async (videoRef: React.RefObject<Webcam>, orientation?: number)  => {
+    // The frame is taken as the camera delivers it, preprocessImage finds which way up the card is
+    const takePhoto = React.useCallback(async (videoRef: React.RefObject<Webcam>)  => {
       if (!videoRef.current) return;
       const video = videoRef.current.video;
       if (!video || !video.videoWidth || !video.videoHeight) return;
       const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-
-      const isPortrait = (typeof orientation === 'number' && (orientation === 90 || orientation === -90)) || window.innerHeight > window.innerWidth;
-
-      addDebugImage(canvas, `takePhoto - Original - ${isPortrait ? 'PreRotation' : ''}`, `w:${canvas.width} h:${canvas.height}`);
-
-      // Use orientation to determine rotation
-
-      const rotate = 0;
-      if (isPortrait) {
-        // Rotate 90 degrees for portrait
-        canvas.width = video.videoHeight;
-        canvas.height = video.videoWidth;
-        if (ctx) {
-          props.showNotification('takePhoto-isPortrait-r');
-          ctx.save();
-          ctx.translate(canvas.width / 2, canvas.height / 2);
-          ctx.rotate(rotate * Math.PI / 180);
-          ctx.drawImage(
-            video,
-            -video.videoWidth / 2,
-            -video.videoHeight / 2,
-            video.videoWidth,
-            video.videoHeight
-          );
-          ctx.restore();
-          addDebugImage(canvas, `takePhoto - Rotated:${rotate} - ${isPortrait ? 'PreRotation' : ''}`, `w:${canvas.width} h:${canvas.height}`);
-
-        }
-      } else {
-        props.showNotification('takePhoto-landscape');
-        // Already landscape
-        canvas.width = video.videoWidth;
-        canvas.height = video.videoHeight;
-        if(ctx) {
-          ctx?.rotate(-rotate * Math.PI / 180);
-          ctx?.drawImage(video, 0, 0, video.videoWidth, video.videoHeight);
-        }
-      }
-
-      props.showNotification(`takePhoto-PostRotation-width-${canvas.width}-height-${ canvas.height }`);
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      canvas.getContext('2d')?.drawImage(video, 0, 0, video.videoWidth, video.videoHeight);
+      addDebugImage(canvas, 'takePhoto - Original', `w:${canvas.width} h:${canvas.height}`);
 
       const dataUrl = canvas.toDataURL('image/jpeg');
       try {
         // Preprocess image for better OCR
         const processed = await preprocessImage(dataUrl);
-        addScanToQueue(processed);
-        props.showNotification('Photo captured successfully', 'success');
+        if (queueCapture(processed, 'Photo', props.showNotification) && processed.quality.level === 'good') {
+          props.showNotification('Photo captured successfully', 'success');
+        }
       } catch (error) {
         props.showNotification('Failed to process photo', 'danger');
       }
-    }, [addScanToQueue]);
+    }, [queueCapture, selectedScanMode, pool]);
+
+    // Start counting afresh each time auto-capture is switched on
+    useEffect(() => {
+      autoCaptureRef.current = { ...autoCaptureRef.current, streak: 0 };
+    }, [isAutoCapture]);
+
+    // Auto-capture: each live poll advances the streak, takePhoto fires once the frame has
+    // stayed good long enough, outside the cooldown and not on the card just captured
+    useEffect(() => {
+      if (!isAutoCapture || !liveFrame || isProcessing) return;
+      const { state, capture } = nextAutoCapture(autoCaptureRef.current, liveFrame, cardOutline?.framing ?? 'none', Date.now(), isRescanMode);
+      autoCaptureRef.current = state;
+      if (capture && props.videoRef) void takePhoto(props.videoRef);
+    }, [liveFrame]);
 
     return {
-      worker, scans, addScan, clearScans, clearScan, activeScanId, setActiveScanId, lockField, mergeFieldsToActiveScan, orcStrength,
-       clearAllScans, isProcessing, processImage, handleFileUpload, takePhoto, lockActivePhotoField, selectedScanMode, setSelectedScanMode,
+      pool, scans, progress, addScan, clearScans, clearScan, activeScanId, setActiveScanId, lockField, mergeFieldsToActiveScan, orcStrength, cardOutline,
+       clearAllScans, isProcessing, processImage, handleFileUpload, reprocessScan, takePhoto, lockActivePhotoField, selectedScanMode, setSelectedScanMode,
+       selectedTemplate, setSelectedTemplate, isRescanMode, setIsRescanMode, isAutoCapture, setIsAutoCapture,
        debugImages, setDebugImages
     };
   }
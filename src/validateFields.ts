@@ -0,0 +1,92 @@
+import type { FieldMatches } from './extractFields';
+import type { DocumentTemplate } from './templates';
+import { toDate } from './dates';
+
+export interface ScanWarning {
+  code: string;
+  fields: string[];
+  message: string;
+}
+
+export interface ValidationRule {
+  code: string;
+  fields: string[];
+  // Returns a message when the values conflict, null when they agree or can't be checked
+  check: (values: Record<string, string>) => string | null;
+}
+
+// Confidence multiplier for a candidate that conflicts with the best values of the other fields
+const CONFLICT_PENALTY = 0.7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseRange(value: string | undefined): { start: Date | null; end: Date | null } {
+  const [start, end] = (value ?? '').split(/\s+-\s+/);
+  return { start: toDate(start), end: toDate(end) };
+}
+
+export const dateBefore = (code: string, earlier: string, later: string, allowSame = false): ValidationRule => ({
+  code,
+  fields: [earlier, later],
+  check: values => {
+    const a = toDate(values[earlier]) ?? parseRange(values[earlier]).start;
+    const b = toDate(values[later]) ?? parseRange(values[later]).start;
+    if (!a || !b) return null;
+    const ok = allowSame ? a.getTime() <= b.getTime() : a.getTime() < b.getTime();
+    return ok ? null : `${earlier.toUpperCase()} ${values[earlier]} should be ${allowSame ? 'on or before' : 'before'} ${later.toUpperCase()} ${values[later]}`;
+  }
+});
+
+export const rangeLength = (code: string, field: string, minDays: number, maxDays: number): ValidationRule => ({
+  code,
+  fields: [field],
+  check: values => {
+    const { start, end } = parseRange(values[field]);
+    if (!start || !end) return null;
+    const days = (end.getTime() - start.getTime()) / DAY_MS;
+    return days >= minDays && days <= maxDays ? null : `${field.toUpperCase()} covers ${Math.round(days)} days, expected ${minDays}-${maxDays}`;
+  }
+});
+
+export const matchesFormat = (code: string, field: string, format: RegExp, description: string): ValidationRule => ({
+  code,
+  fields: [field],
+  check: values => {
+    const value = values[field];
+    if (!value) return null;
+    return format.test(value) ? null : `${field.toUpperCase()} ${value} should be ${description}`;
+  }
+});
+
+function bestValues(matches: FieldMatches): Record<string, string> {
+  return Object.fromEntries(Object.entries(matches).map(([key, fieldMatches]) => [key, fieldMatches[0]?.value ?? '']));
+}
+
+// Cross-field checks run after extraction. Candidates that conflict with the best values of the
+// other fields are penalised and re-ranked, then the rules are re-run to report what is left.
+export function validateMatches(matches: FieldMatches, template: DocumentTemplate): { matches: FieldMatches; warnings: ScanWarning[] } {
+  const rules = template.rules ?? [];
+  const validated: FieldMatches = Object.fromEntries(
+    Object.entries(matches).map(([key, fieldMatches]) => [key, fieldMatches.map(m => ({ ...m }))])
+  );
+
+  const best = bestValues(validated);
+  rules.forEach(rule => {
+    rule.fields.forEach(field => {
+      (validated[field] ?? []).forEach(candidate => {
+        if (rule.check({ ...best, [field]: candidate.value })) {
+          candidate.confidence *= CONFLICT_PENALTY;
+        }
+      });
+    });
+  });
+  Object.values(validated).forEach(fieldMatches => fieldMatches.sort((a, b) => b.confidence - a.confidence));
+
+  const finalValues = bestValues(validated);
+  const warnings = rules.flatMap(rule => {
+    const message = rule.check(finalValues);
+    return message ? [{ code: rule.code, fields: rule.fields, message }] : [];
+  });
+
+  return { matches: validated, warnings };
+}
@@ -0,0 +1,66 @@
+// A pool of OCR workers for batch jobs. Each job has a worker to itself for as long as it runs, as
+// Tesseract parameters are set per worker, and jobs wait their turn in the order they were submitted.
+
+export interface WorkerPool<W> {
+  size: number;
+  // Run task on the next free worker. slot is the worker's index, e.g. to route its progress.
+  run<T>(task: (worker: W, slot: number) => Promise<T>): Promise<T>;
+  // Jobs running or waiting
+  pending(): number;
+}
+
+// One worker per core, less one left for the page and the live preview, and at most max
+export function poolSize(cores: number | undefined, max: number): number {
+  return Math.max(1, Math.min(max, (cores ?? 2) - 1));
+}
+
+export function createPool<W>(workers: W[]): WorkerPool<W> {
+  const idle = workers.map((_, slot) => slot);
+  const waiting: Array<(slot: number) => void> = [];
+  let running = 0;
+
+  const next = () => {
+    while (idle.length > 0 && waiting.length > 0) {
+      const slot = idle.shift()!;
+      waiting.shift()!(slot);
+    }
+  };
+
+  return {
+    size: workers.length,
+    run<T>(task: (worker: W, slot: number) => Promise<T>): Promise<T> {
+      return new Promise<T>((resolve, reject) => {
+        waiting.push(slot => {
+          running++;
+          task(workers[slot], slot).then(resolve, reject).finally(() => {
+            running--;
+            idle.push(slot);
+            next();
+          });
+        });
+        next();
+      });
+    },
+    pending: () => running + waiting.length,
+  };
+}
+
+// Hands out a ticket per job and applies results in ticket order, holding back any that finish
+// before an earlier job. Keeps batch results in capture order.
+export function createSequencer() {
+  const ready = new Map<number, () => void>();
+  let issued = 0;
+  let applied = 0;
+  return {
+    ticket: () => issued++,
+    release(ticket: number, apply: () => void) {
+      ready.set(ticket, apply);
+      while (ready.has(applied)) {
+        const next = ready.get(applied)!;
+        ready.delete(applied);
+        applied++;
+        next();
+      }
+    },
+  };
+}
@@ -0,0 +1,16 @@
+// Workers are built next to the bundle, which a page on another origin may embed. A browser only
+// starts a worker from the page's own origin, so one from elsewhere is started from a same-origin
+// blob that loads it.
+
+export type WorkerType = 'classic' | 'module';
+
+// Where a worker built next to the bundle is, the page itself when there is no bundle URL
+export function assetUrl(src: string, bundleUrl: string | undefined, pageUrl: string): string {
+  return new URL(src, bundleUrl ?? pageUrl).href;
+}
+
+// Source of a blob worker that loads url, or null when the page can start it as is
+export function workerShim(url: string, pageOrigin: string, type: WorkerType): string | null {
+  if (new URL(url).origin === pageOrigin) return null;
+  return type === 'module' ? `import ${JSON.stringify(url)};` : `importScripts(${JSON.stringify(url)});`;
+}